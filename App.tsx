@@ -1,14 +1,18 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { BrowserRouter as Router, Routes, Route, useParams } from 'react-router-dom';
 import { SetupForm } from './components/SetupForm';
 import { ResultsDashboard } from './components/ResultsDashboard';
 import { SharedReportViewer } from './components/SharedReportViewer';
-import { runAnalysis } from './services/geminiService';
+import { retryFailedResponses, runAnalysis } from './services/geminiService';
+import { createRunController, type RunController } from './services/runController';
+import { clearCheckpoint, createCheckpoint, loadCheckpoint, recordCheckpointResponse } from './services/checkpointService';
 import { saveReport, getUserReports, deleteReport, generateShareUrl } from './services/reportService';
-import type { AnalysisResult, AppConfig, SavedReport, Task } from './types';
+import type { AnalysisResult, AppConfig, RunCheckpoint, SavedReport, Task } from './types';
 import { LoadingStatus } from './components/LoadingSpinner';
 import { SavedReportsList } from './components/SavedReportsList';
+import { ResumeRunPrompt } from './components/ResumeRunPrompt';
 import { ReportViewer } from './components/ReportViewer';
+import { TrendsView } from './components/TrendsView';
 import { generateHtmlReport } from './utils/exportUtils';
 
 const TravykLogo: React.FC = () => (
@@ -133,13 +137,20 @@ const MainApp: React.FC = () => {
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
+  const runControllerRef = useRef<RunController | null>(null);
+  // An unfinished run found on load, offered for resuming.
+  const [pendingCheckpoint, setPendingCheckpoint] = useState<RunCheckpoint | null>(null);
 
   const [savedReports, setSavedReports] = useState<SavedReport[]>([]);
   const [viewingReportHtml, setViewingReportHtml] = useState<string | null>(null);
+  const [viewingSavedReport, setViewingSavedReport] = useState<SavedReport | null>(null);
+  const [viewingProjectKey, setViewingProjectKey] = useState<string | null>(null);
   const [sharingReport, setSharingReport] = useState<{ reportId: string, isSharing: boolean, link: string | null, error: string | null } | null>(null);
 
   useEffect(() => {
     loadReports();
+    loadCheckpoint().then(setPendingCheckpoint).catch(e => console.error("Failed to load run checkpoint:", e));
   }, []);
 
   const loadReports = async () => {
@@ -155,22 +166,89 @@ const MainApp: React.FC = () => {
     setTasks(updatedTasks);
   }, []);
 
-  const handleStartAnalysis = useCallback(async (config: AppConfig) => {
+  // Starts a new run, or continues `resumeFrom` re-running only its unfinished and failed tasks.
+  const handleStartAnalysis = useCallback(async (config: AppConfig, resumeFrom?: RunCheckpoint) => {
+    if (pendingCheckpoint && pendingCheckpoint.id !== resumeFrom?.id) {
+      clearCheckpoint(pendingCheckpoint);
+    }
+    setPendingCheckpoint(null);
+    let checkpoint = resumeFrom ?? createCheckpoint(config);
+
     setIsLoading(true);
     setError(null);
     setResults(null);
     setAppConfig(config);
     setTasks([]);
+    setIsPaused(false);
+    const controller = createRunController();
+    runControllerRef.current = controller;
     try {
-      const analysisResults = await runAnalysis(config, handleProgressUpdate);
-      setResults(analysisResults);
+      const analysisResults = await runAnalysis(config, handleProgressUpdate, {
+        controller,
+        completed: checkpoint.responses,
+        onResponse: (taskId, response) => {
+          checkpoint = recordCheckpointResponse(checkpoint, taskId, response);
+        },
+      });
+      // A cancelled run stays resumable; a finished one no longer needs its checkpoint.
+      if (controller.signal.aborted) {
+        setPendingCheckpoint(checkpoint);
+      } else {
+        clearCheckpoint(checkpoint);
+      }
+      if (controller.signal.aborted && analysisResults.length === 0) {
+        setError('The analysis was cancelled before any responses were completed.');
+      } else {
+        setResults(analysisResults);
+      }
     } catch (e) {
       console.error(e);
       setError(e instanceof Error ? e.message : 'An unknown error occurred during analysis.');
     } finally {
+      runControllerRef.current = null;
+      setIsLoading(false);
+    }
+  }, [handleProgressUpdate, pendingCheckpoint]);
+
+  // Re-runs the failed responses of the current results, keeping the successful ones as they are.
+  const handleRetryFailed = useCallback(async () => {
+    if (!results || !appConfig) return;
+    setIsLoading(true);
+    setTasks([]);
+    setIsPaused(false);
+    const controller = createRunController();
+    runControllerRef.current = controller;
+    try {
+      setResults(await retryFailedResponses(results, appConfig, handleProgressUpdate, controller));
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : 'An unknown error occurred while retrying.');
+    } finally {
+      runControllerRef.current = null;
       setIsLoading(false);
     }
-  }, [handleProgressUpdate]);
+  }, [results, appConfig, handleProgressUpdate]);
+
+  const handleDiscardCheckpoint = () => {
+    if (pendingCheckpoint) clearCheckpoint(pendingCheckpoint);
+    setPendingCheckpoint(null);
+  };
+
+  const handlePauseAnalysis = () => {
+    runControllerRef.current?.pause();
+    setIsPaused(true);
+  };
+
+  const handleResumeAnalysis = () => {
+    runControllerRef.current?.resume();
+    setIsPaused(false);
+  };
+
+  // Completed responses are kept and shown once the requests in flight have been aborted.
+  const handleCancelAnalysis = () => {
+    runControllerRef.current?.cancel();
+    setIsPaused(false);
+  };
 
   const handleReset = () => {
     setAppConfig(null);
@@ -179,16 +257,18 @@ const MainApp: React.FC = () => {
     setError(null);
     setTasks([]);
     setViewingReportHtml(null);
+    setViewingSavedReport(null);
+    setViewingProjectKey(null);
   };
   
-  const handleSaveReport = useCallback(() => {
+  const handleSaveReport = useCallback(async () => {
     if (!results || !appConfig) return;
 
     try {
-    const htmlContent = generateHtmlReport(results, appConfig);
-      const newReport = await saveReport(appConfig.clientName, htmlContent);
+      const htmlContent = generateHtmlReport(results, appConfig);
+      const newReport = await saveReport(results, appConfig, htmlContent);
       setSavedReports(prev => [newReport, ...prev]);
-    alert('Report saved successfully!');
+      alert('Report saved successfully!');
     } catch (e) {
       console.error('Error saving report:', e);
       alert('Failed to save report. Please try again.');
@@ -215,16 +295,41 @@ const MainApp: React.FC = () => {
     }
   }, []);
 
-  const handleViewReport = (htmlContent: string) => {
-    setViewingReportHtml(htmlContent);
+  const handleViewReport = (report: SavedReport) => {
+    // Reports saved before structured data was stored can only be shown as static HTML.
+    if (report.data) {
+      setViewingSavedReport(report);
+    } else {
+      setViewingReportHtml(report.htmlContent);
+    }
+  };
+
+  const handleViewTrends = (projectKey: string) => {
+    setViewingProjectKey(projectKey);
   };
 
   const mainContent = () => {
     if (viewingReportHtml) {
       return <ReportViewer htmlContent={viewingReportHtml} onClose={handleReset} />;
     }
+    if (viewingSavedReport?.data) {
+      const { config, results: savedResults } = viewingSavedReport.data;
+      return <ResultsDashboard results={savedResults} config={{ ...config, apiKeys: {} }} />;
+    }
+    if (viewingProjectKey) {
+      const runs = savedReports.filter(report => report.projectKey === viewingProjectKey);
+      return <TrendsView runs={runs} onClose={() => setViewingProjectKey(null)} />;
+    }
     if (isLoading) {
-      return <LoadingStatus tasks={tasks} />;
+      return (
+        <LoadingStatus
+          tasks={tasks}
+          isPaused={isPaused}
+          onPause={handlePauseAnalysis}
+          onResume={handleResumeAnalysis}
+          onCancel={handleCancelAnalysis}
+        />
+      );
     }
     if (error) {
        return (
@@ -235,16 +340,20 @@ const MainApp: React.FC = () => {
         );
     }
     if (results && appConfig) {
-      return <ResultsDashboard results={results} config={appConfig} onSaveReport={handleSaveReport} />;
+      return <ResultsDashboard results={results} config={appConfig} onSaveReport={handleSaveReport} onRetryFailed={handleRetryFailed} />;
     }
     return (
       <div className="space-y-12">
+        {pendingCheckpoint && (
+          <ResumeRunPrompt checkpoint={pendingCheckpoint} onResume={handleStartAnalysis} onDiscard={handleDiscardCheckpoint} />
+        )}
         <SetupForm onStartAnalysis={handleStartAnalysis} />
         <SavedReportsList 
             reports={savedReports} 
             onView={handleViewReport} 
             onDelete={handleDeleteReport} 
             onShare={handleShareSavedReport}
+            onViewTrends={handleViewTrends}
             sharingReportId={sharingReport?.isSharing ? sharingReport.reportId : null}
         />
       </div>
@@ -256,7 +365,7 @@ const MainApp: React.FC = () => {
       <header className="bg-gray-800/50 backdrop-blur-sm border-b border-gray-700 p-4 sticky top-0 z-10">
         <div className="container mx-auto flex justify-between items-center">
           <TravykLogo />
-           {(results || viewingReportHtml) && <button onClick={handleReset} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">Start New Analysis</button>}
+           {(results || viewingReportHtml || viewingSavedReport) && <button onClick={handleReset} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">Start New Analysis</button>}
         </div>
       </header>
       
@@ -1,20 +1,9 @@
 import React, { useState } from 'react';
-import type { AnalysisResult, Provider, AppConfig } from '../types';
+import type { AnalysisResult, AppConfig } from '../types';
+import { getAnalysisTargets, getTargetDisplayName } from '../services/providers';
+import { findTargetResponses } from '../utils/aggregation';
 import { marked } from 'marked';
 
-const providerBaseNames: Record<Provider, string> = {
-    gemini: 'Google Gemini',
-    openai: 'OpenAI',
-    perplexity: 'Perplexity',
-    copilot: 'Copilot / Azure'
-};
-
-const getProviderDisplayName = (provider: Provider, config: AppConfig): string => {
-    const model = config.models[provider];
-    return model ? `${providerBaseNames[provider]} (${model})` : providerBaseNames[provider];
-}
-
-
 const QuestionCard: React.FC<{ question: string; results: AnalysisResult[]; index: number, config: AppConfig }> = ({ question, results, index, config }) => {
     const [isOpen, setIsOpen] = useState(false);
 
@@ -43,23 +32,31 @@ const QuestionCard: React.FC<{ question: string; results: AnalysisResult[]; inde
                                 For prompt: <span className="text-gray-300 italic">"{result.prompt}"</span>
                             </p>
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                                {config.providers.map(provider => {
-                                    const pResponse = result.providerResponses.find(pr => pr.provider === provider);
-                                    if (!pResponse) return null;
-                                    const answer = pResponse.additionalAnswers.find(a => a.question === question);
-                                    if (!answer || !answer.answer.trim()) return null;
+                                {getAnalysisTargets(config).flatMap(target => {
+                                    const pResponses = findTargetResponses(result, target);
+                                    return pResponses.map((pResponse, sampleIndex) => {
+                                        const answer = pResponse.additionalAnswers.find(a => a.question === question);
+                                        if (!answer || (!answer.answer.trim() && !answer.error)) return null;
 
-                                    const answerHtml = marked.parse(answer.answer || '');
+                                        const answerHtml = marked.parse(answer.answer || '');
 
-                                    return (
-                                        <div key={provider}>
-                                            <h6 className="font-semibold text-gray-200 mb-1">{getProviderDisplayName(provider, config)}</h6>
-                                            <div 
-                                                className="prose prose-invert prose-sm max-w-none bg-gray-900 p-3 rounded-md text-gray-300"
-                                                dangerouslySetInnerHTML={{ __html: answerHtml }}
-                                            />
-                                        </div>
-                                    );
+                                        return (
+                                            <div key={`${target.key}-${sampleIndex}`}>
+                                                <h6 className="font-semibold text-gray-200 mb-1">
+                                                    {getTargetDisplayName(target)}
+                                                    {pResponses.length > 1 && <span className="ml-2 text-xs font-normal text-gray-500">Sample {sampleIndex + 1}</span>}
+                                                </h6>
+                                                {answer.error ? (
+                                                    <p className="text-sm text-red-400 bg-gray-900 p-3 rounded-md">Could not answer: {answer.error}</p>
+                                                ) : (
+                                                    <div 
+                                                        className="prose prose-invert prose-sm max-w-none bg-gray-900 p-3 rounded-md text-gray-300"
+                                                        dangerouslySetInnerHTML={{ __html: answerHtml }}
+                                                    />
+                                                )}
+                                            </div>
+                                        );
+                                    });
                                 })}
                             </div>
                         </div>
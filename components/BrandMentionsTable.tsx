@@ -1,10 +1,6 @@
 import React from 'react';
-import type { Provider, AppConfig } from '../types';
-
-interface BrandMentionData {
-  brandName: string;
-  mentions: Record<Provider, number>;
-}
+import type { AppConfig, BrandMentionData } from '../types';
+import { getAnalysisTargets, getTargetDisplayName, getTargetShortName } from '../services/providers';
 
 interface BrandMentionsTableProps {
   data: BrandMentionData[];
@@ -13,38 +9,24 @@ interface BrandMentionsTableProps {
   config: AppConfig;
 }
 
-const providerBaseNames: Record<Provider, string> = {
-    gemini: 'Gemini',
-    openai: 'OpenAI',
-    perplexity: 'Pplx',
-    copilot: 'Copilot'
-};
-
-const getProviderShortName = (provider: Provider, config: AppConfig) => {
-    const model = config.models[provider];
-    const baseName = providerBaseNames[provider];
-    if (model && model.length > 10) {
-        return `${baseName} (${model.substring(0,10)}...)`;
-    }
-    return model ? `${baseName} (${model})` : baseName;
-}
-
 export const BrandMentionsTable: React.FC<BrandMentionsTableProps> = ({ data, clientName, knownBrands, config }) => {
+  const targets = getAnalysisTargets(config);
   return (
     <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-lg h-full">
-      <h3 className="text-xl font-semibold mb-4 text-gray-100">Comparative Brand Mentions</h3>
+      <h3 className="text-xl font-semibold text-gray-100">Comparative Brand Mentions</h3>
+      <p className="text-xs text-gray-500 mb-4">LLM-reported count, with the text-match count in brackets. <span className="text-yellow-500">Highlighted</span> where they disagree.</p>
       <div className="overflow-y-auto max-h-[300px] pr-2">
         <table className="w-full text-left">
           <thead className="sticky top-0 bg-gray-800 z-10">
             <tr>
               <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600">Brand</th>
-              {config.providers.map(p => (
-                <th key={p} className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right" title={config.models[p]}>{getProviderShortName(p, config)}</th>
+              {targets.map(t => (
+                <th key={t.key} className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right" title={getTargetDisplayName(t)}>{getTargetShortName(t)}</th>
               ))}
             </tr>
           </thead>
           <tbody>
-            {data.map(({ brandName, mentions }) => {
+            {data.map(({ brandName, mentions, localMentions }) => {
                 const lowerCaseBrandName = brandName.toLowerCase();
                 const isClient = lowerCaseBrandName === clientName.toLowerCase();
                 const isKnown = knownBrands.has(lowerCaseBrandName);
@@ -55,9 +37,20 @@ export const BrandMentionsTable: React.FC<BrandMentionsTableProps> = ({ data, cl
                       {brandName}
                       {!isKnown && <span className="ml-2 text-xs font-semibold text-yellow-500 tracking-wider" title="This brand was discovered during analysis and was not in your initial list.">(Discovered)</span>}
                     </td>
-                    {config.providers.map(p => (
-                       <td key={p} className="py-3 text-right text-gray-300 font-mono">{mentions[p] || 0}</td>
-                    ))}
+                    {targets.map(t => {
+                       const reported = mentions[t.key] || 0;
+                       const counted = localMentions[t.key] || 0;
+                       const disagrees = reported !== counted;
+                       return (
+                         <td
+                           key={t.key}
+                           className={`py-3 text-right font-mono whitespace-nowrap ${disagrees ? 'text-yellow-400' : 'text-gray-300'}`}
+                           title={disagrees ? `The LLM reported ${reported} mentions, text matching found ${counted}.` : undefined}
+                         >
+                           {reported} <span className={disagrees ? 'text-yellow-500/80' : 'text-gray-500'}>({counted})</span>
+                         </td>
+                       );
+                    })}
                   </tr>
                 )
             })}
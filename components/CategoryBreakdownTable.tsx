@@ -0,0 +1,55 @@
+import React from 'react';
+import type { CategoryBreakdownData } from '../types';
+import { formatSentimentScore } from '../utils/aggregation';
+
+interface CategoryBreakdownTableProps {
+  data: CategoryBreakdownData[];
+  clientName: string;
+  selectedCategory: string;
+  onSelectCategory: (category: string) => void;
+}
+
+export const CategoryBreakdownTable: React.FC<CategoryBreakdownTableProps> = ({ data, clientName, selectedCategory, onSelectCategory }) => {
+  return (
+    <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-lg">
+      <h3 className="text-xl font-semibold text-gray-100">Visibility by Prompt Category</h3>
+      <p className="text-xs text-gray-500 mb-4">How {clientName} performs in each group of prompts, over all models. Click a category to filter the whole dashboard to it.</p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600">Category</th>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Prompts</th>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right" title="LLM-reported mentions per sample, summed over all models">Mentions</th>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Share of Voice</th>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Prompt Coverage</th>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Avg. Sentiment</th>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Leader</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.map(row => {
+                const isSelected = row.category === selectedCategory;
+                const clientLeads = row.leader?.toLowerCase() === clientName.toLowerCase();
+                return (
+                  <tr key={row.category} className={`border-b border-gray-700 last:border-b-0 ${isSelected ? 'bg-green-900/30' : ''}`}>
+                    <td className="py-3 font-medium">
+                      <button onClick={() => onSelectCategory(isSelected ? '' : row.category)} className="text-gray-200 hover:text-green-400 underline decoration-dotted underline-offset-4" aria-pressed={isSelected}>
+                        {row.category}
+                      </button>
+                    </td>
+                    <td className="py-3 text-right text-gray-300 font-mono">{row.prompts}</td>
+                    <td className="py-3 text-right text-gray-300 font-mono">{Math.round(row.clientMentions * 10) / 10}</td>
+                    <td className="py-3 text-right font-bold font-mono text-gray-100">{Math.round(row.shareOfVoice * 100)}%</td>
+                    <td className="py-3 text-right text-gray-300 font-mono">{Math.round(row.promptCoverage * 100)}%</td>
+                    <td className="py-3 text-right text-gray-300 font-mono">{row.averageSentiment === null ? '–' : formatSentimentScore(row.averageSentiment)}</td>
+                    <td className={`py-3 text-right ${clientLeads ? 'text-green-400 font-semibold' : 'text-gray-300'}`}>{row.leader ?? '–'}</td>
+                  </tr>
+                );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
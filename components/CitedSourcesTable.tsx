@@ -0,0 +1,72 @@
+import React from 'react';
+import type { AppConfig, CitedDomainData } from '../types';
+import { getAnalysisTargets, getTargetDisplayName, getTargetShortName } from '../services/providers';
+import { getBrandDomains } from '../utils/brandVariants';
+
+interface CitedSourcesTableProps {
+  data: CitedDomainData[];
+  clientCitations: Record<string, { cited: number, responses: number }>;
+  config: AppConfig;
+}
+
+const MAX_DOMAINS = 20;
+
+export const CitedSourcesTable: React.FC<CitedSourcesTableProps> = ({ data, clientCitations, config }) => {
+  const targets = getAnalysisTargets(config);
+  const clientDomains = getBrandDomains(config.clientName, config);
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-lg">
+      <h3 className="text-xl font-semibold text-gray-100">Cited Sources</h3>
+      <p className="text-xs text-gray-500 mb-4">Domains cited by the API or linked in the response text, counted once per response.</p>
+
+      <div className="flex flex-wrap gap-3 mb-4">
+        {clientDomains.length === 0 ? (
+          <p className="text-sm text-gray-400">Add your domain under Brand Variants to see whether {config.clientName} is cited.</p>
+        ) : targets.map(t => {
+          const { cited, responses } = clientCitations[t.key] || { cited: 0, responses: 0 };
+          return (
+            <div key={t.key} className="bg-gray-700/50 px-3 py-2 rounded-md text-sm">
+              <span className="text-gray-400">{getTargetDisplayName(t)}: </span>
+              <span className={cited > 0 ? 'text-green-400 font-semibold' : 'text-gray-300'}>
+                {config.clientName} cited in {cited} of {responses} responses
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {data.length === 0 ? (
+        <p className="text-sm text-gray-400">No sources were cited in this run.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-[400px] pr-2">
+          <table className="w-full text-left">
+            <thead className="sticky top-0 bg-gray-800 z-10">
+              <tr>
+                <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600">Domain</th>
+                {targets.map(t => (
+                  <th key={t.key} className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right" title={getTargetDisplayName(t)}>{getTargetShortName(t)}</th>
+                ))}
+                <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.slice(0, MAX_DOMAINS).map(d => (
+                <tr key={d.domain} className={`border-b border-gray-700 last:border-b-0 ${d.isClientDomain ? 'bg-green-900/30' : ''}`}>
+                  <td className={`py-3 font-medium ${d.isClientDomain ? 'text-green-400' : 'text-gray-200'}`}>{d.domain}</td>
+                  {targets.map(t => (
+                    <td key={t.key} className="py-3 text-right text-gray-300 font-mono">{d.citations[t.key] || 0}</td>
+                  ))}
+                  <td className="py-3 text-right font-bold font-mono text-gray-100">{d.total}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {data.length > MAX_DOMAINS && (
+            <p className="text-xs text-gray-500 mt-2">Showing the {MAX_DOMAINS} most cited of {data.length} domains.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import type { AppConfig, BrandLeaderboardData, CompetitiveMetrics } from '../types';
+import { getAnalysisTargets, getTargetDisplayName } from '../services/providers';
+
+interface CompetitiveLeaderboardProps {
+  data: BrandLeaderboardData[];
+  clientName: string;
+  config: AppConfig;
+}
+
+type SortKey = keyof CompetitiveMetrics;
+
+const columns: { key: SortKey; label: string; title: string; defaultDirection: 'asc' | 'desc' }[] = [
+  { key: 'shareOfVoice', label: 'Share of Voice', title: 'Mentions of the brand as a share of all tracked-brand mentions', defaultDirection: 'desc' },
+  { key: 'promptCoverage', label: 'Prompt Coverage', title: 'Share of prompts where the brand is mentioned at least once', defaultDirection: 'desc' },
+  { key: 'averageRank', label: 'Avg. Rank', title: 'Average order of first mention, where mentioned', defaultDirection: 'asc' },
+];
+
+const formatValue = (key: SortKey, metrics: CompetitiveMetrics) => {
+  if (key === 'averageRank') return metrics.averageRank === null ? '–' : metrics.averageRank.toFixed(1);
+  return `${Math.round(metrics[key] * 100)}%`;
+};
+
+export const CompetitiveLeaderboard: React.FC<CompetitiveLeaderboardProps> = ({ data, clientName, config }) => {
+  const targets = getAnalysisTargets(config);
+  const [scope, setScope] = useState<string>('overall');
+  const [sort, setSort] = useState<{ key: SortKey; direction: 'asc' | 'desc' }>({ key: 'shareOfVoice', direction: 'desc' });
+
+  const getMetrics = (brand: BrandLeaderboardData) => (scope === 'overall' ? brand.overall : brand.byTarget[scope]);
+
+  // Brands without a rank always sort last.
+  const sorted = [...data].sort((a, b) => {
+    const va = getMetrics(a)[sort.key];
+    const vb = getMetrics(b)[sort.key];
+    if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+    return sort.direction === 'asc' ? va - vb : vb - va;
+  });
+
+  const handleSort = (key: SortKey, defaultDirection: 'asc' | 'desc') => {
+    setSort(prev => prev.key === key ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' } : { key, direction: defaultDirection });
+  };
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-lg">
+      <div className="flex flex-wrap justify-between items-baseline gap-4">
+        <h3 className="text-xl font-semibold text-gray-100">Competitive Leaderboard</h3>
+        <select value={scope} onChange={(e) => setScope(e.target.value)} className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-sm text-gray-200 focus:ring-2 focus:ring-green-500 focus:outline-none">
+          <option value="overall">All models</option>
+          {targets.map(t => (
+            <option key={t.key} value={t.key}>{getTargetDisplayName(t)}</option>
+          ))}
+        </select>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">How each tracked brand compares to the rest of the tracked set. Click a column to sort.</p>
+      <div className="overflow-x-auto max-h-[400px] pr-2">
+        <table className="w-full text-left">
+          <thead className="sticky top-0 bg-gray-800 z-10">
+            <tr>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600">#</th>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600">Brand</th>
+              {columns.map(column => (
+                <th key={column.key} className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right" title={column.title} aria-sort={sort.key === column.key ? (sort.direction === 'asc' ? 'ascending' : 'descending') : undefined}>
+                  <button onClick={() => handleSort(column.key, column.defaultDirection)} className={`hover:text-gray-200 ${sort.key === column.key ? 'text-gray-200' : ''}`}>
+                    {column.label}{sort.key === column.key && (sort.direction === 'asc' ? ' ▲' : ' ▼')}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((brand, index) => {
+                const isClient = brand.brandName.toLowerCase() === clientName.toLowerCase();
+                const metrics = getMetrics(brand);
+                return (
+                  <tr key={brand.brandName} className={`border-b border-gray-700 last:border-b-0 ${isClient ? 'bg-green-900/30' : ''}`}>
+                    <td className="py-3 text-gray-400 font-mono">{index + 1}</td>
+                    <td className={`py-3 font-medium ${isClient ? 'text-green-400' : 'text-gray-200'}`}>{brand.brandName}</td>
+                    {columns.map(column => (
+                      <td key={column.key} className={`py-3 text-right font-mono ${sort.key === column.key ? 'font-bold text-gray-100' : 'text-gray-300'}`}>{formatValue(column.key, metrics)}</td>
+                    ))}
+                  </tr>
+                )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,72 @@
+import React, { useRef, useState } from 'react';
+import type { AppConfig } from '../types';
+import { getConfigFileFormat, parseConfigFile, serializeConfigFile, type ConfigFileContents, type ConfigFileError, type ConfigFileFormat } from '../utils/configFile';
+
+interface ConfigFileControlsProps {
+  // The form's current configuration, read when exporting.
+  getConfig: () => AppConfig;
+  onImport: (contents: ConfigFileContents) => void;
+}
+
+const MIME_TYPES: Record<ConfigFileFormat, string> = { csv: 'text/csv', json: 'application/json' };
+
+export const ConfigFileControls: React.FC<ConfigFileControlsProps> = ({ getConfig, onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [errors, setErrors] = useState<ConfigFileError[]>([]);
+  const [importedFile, setImportedFile] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportedFile(null);
+    const format = getConfigFileFormat(file.name);
+    if (!format) {
+      setErrors([{ location: file.name, message: 'Choose a .csv or .json file.' }]);
+      return;
+    }
+    const { contents, errors: fileErrors } = parseConfigFile(await file.text(), format);
+    setErrors(fileErrors);
+    if (contents) {
+      onImport(contents);
+      setImportedFile(file.name);
+    }
+  };
+
+  const handleExport = (format: ConfigFileFormat) => {
+    const config = getConfig();
+    const blob = new Blob([serializeConfigFile(config, format)], { type: MIME_TYPES[format] });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    const safeClientName = (config.clientName || 'analysis').replace(/[^a-z0-9]/gi, '_').toLowerCase();
+    a.download = `${safeClientName}_config.${format}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <input ref={fileInputRef} type="file" accept=".csv,.json" onChange={handleFileChange} className="hidden" />
+        <button type="button" onClick={() => fileInputRef.current?.click()} className="bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-semibold py-1.5 px-3 rounded-lg transition-colors">Import CSV / JSON</button>
+        <button type="button" onClick={() => handleExport('csv')} className="bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-semibold py-1.5 px-3 rounded-lg transition-colors">Export CSV</button>
+        <button type="button" onClick={() => handleExport('json')} className="bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-semibold py-1.5 px-3 rounded-lg transition-colors">Export JSON</button>
+      </div>
+      <p className="text-xs text-gray-500">Client, competitors with their aliases, domains and products, prompts with categories, funnel stages and locales, and additional questions. CSV files have the columns type, value, category, funnelStage, locale, aliases, domains and products, with one client, competitor, prompt or question per row.</p>
+      {importedFile && <p className="text-sm text-green-400">Imported {importedFile}.</p>}
+      {errors.length > 0 && (
+        <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-sm" role="alert">
+          <p className="font-bold mb-1">Nothing was imported. Fix these problems and try again:</p>
+          <ul className="list-disc list-inside space-y-0.5">
+            {errors.map((error, i) => (
+              <li key={i}><span className="font-semibold">{error.location}:</span> {error.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
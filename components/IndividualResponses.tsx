@@ -1,20 +1,10 @@
 import React, { useState, useMemo } from 'react';
-import type { AnalysisResult, BrandAnalysis, Provider, ProviderResponse, AppConfig } from '../types';
+import type { AnalysisResult, BrandAnalysis, ProviderResponse, AppConfig } from '../types';
+import { getAnalysisTargets, getTargetDisplayName } from '../services/providers';
+import { countLocalMentions, findTargetResponses, formatSentimentScore, getPromptDetails, getResultPromptIndex, isClientDomain } from '../utils/aggregation';
+import { describeLocale } from '../utils/locales';
 import { marked } from 'marked';
 
-const providerBaseNames: Record<Provider, string> = {
-    gemini: 'Google Gemini',
-    openai: 'OpenAI',
-    perplexity: 'Perplexity',
-    copilot: 'Copilot / Azure'
-};
-
-const getProviderDisplayName = (provider: Provider, config: AppConfig): string => {
-    const model = config.models[provider];
-    return model ? `${providerBaseNames[provider]} (${model})` : providerBaseNames[provider];
-}
-
-
 const SentimentBadge: React.FC<{ sentiment: BrandAnalysis['sentiment'] }> = ({ sentiment }) => {
     const sentimentClasses = {
         Positive: 'bg-green-800 text-green-300 border-green-600',
@@ -29,7 +19,10 @@ const SentimentBadge: React.FC<{ sentiment: BrandAnalysis['sentiment'] }> = ({ s
     );
 };
 
-const ProviderResponseContent: React.FC<{ providerResponse: ProviderResponse }> = ({ providerResponse }) => {
+const ProviderResponseContent: React.FC<{ providerResponse: ProviderResponse; config: AppConfig }> = ({ providerResponse, config }) => {
+    // Above the early return, so switching between a failed and a successful sample keeps the hook count.
+    const htmlResponse = useMemo(() => marked.parse(providerResponse.response || ''), [providerResponse.response]);
+
     if (providerResponse.error) {
         return (
             <div className="bg-red-900/30 border border-red-700 text-red-300 px-4 py-3 rounded-lg">
@@ -38,8 +31,6 @@ const ProviderResponseContent: React.FC<{ providerResponse: ProviderResponse }>
             </div>
         );
     }
-    
-    const htmlResponse = useMemo(() => marked.parse(providerResponse.response || ''), [providerResponse.response]);
 
     return (
       <div className="space-y-6">
@@ -50,16 +41,57 @@ const ProviderResponseContent: React.FC<{ providerResponse: ProviderResponse }>
                   dangerouslySetInnerHTML={{ __html: htmlResponse }}
               />
           </div>
+          {providerResponse.citations && providerResponse.citations.length > 0 && (
+              <div>
+                  <h5 className="font-semibold text-green-400 mb-2">Sources</h5>
+                  <ul className="space-y-1 text-sm">
+                      {providerResponse.citations.map(citation => (
+                          <li key={citation.url} className="truncate">
+                              <a href={citation.url} target="_blank" rel="noopener noreferrer" className={`hover:underline ${isClientDomain(citation.domain, config) ? 'text-green-400 font-semibold' : 'text-blue-400'}`}>
+                                  {citation.url}
+                              </a>
+                              {citation.source === 'text' && <span className="ml-2 text-xs text-gray-500">(linked in text)</span>}
+                          </li>
+                      ))}
+                  </ul>
+              </div>
+          )}
            <div>
               <h5 className="font-semibold text-green-400 mb-2">Brand Analysis</h5>
+              {providerResponse.analysisWarning && (
+                  <p className="text-sm text-yellow-400 bg-yellow-900/30 border border-yellow-700 rounded-lg px-3 py-2 mb-3">
+                      <strong>Incomplete analysis:</strong> {providerResponse.analysisWarning}
+                  </p>
+              )}
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                  {providerResponse.brandAnalyses.map(analysis => (
-                      <div key={analysis.brandName} className="bg-gray-700/50 p-3 rounded-md">
-                          <p className="font-semibold text-gray-200">{analysis.brandName}</p>
-                          <p className="text-sm text-gray-400">Mentions: {analysis.mentions}</p>
-                          <SentimentBadge sentiment={analysis.sentiment} />
-                      </div>
-                  ))}
+                  {providerResponse.brandAnalyses.map(analysis => {
+                      const counted = countLocalMentions(providerResponse, analysis.brandName, config);
+                      const disagrees = counted !== analysis.mentions;
+                      const prominence = [
+                          analysis.firstMentionRank ? `#${analysis.firstMentionRank} mentioned` : null,
+                          analysis.listRank ? `List #${analysis.listRank}` : null,
+                          analysis.recommended ? 'Recommended' : null,
+                      ].filter(Boolean);
+                      return (
+                          <div key={analysis.brandName} className="bg-gray-700/50 p-3 rounded-md">
+                              <p className="font-semibold text-gray-200">{analysis.brandName}</p>
+                              <p className="text-sm text-gray-400">Mentions: {analysis.mentions}</p>
+                              <p className={`text-xs mb-1 ${disagrees ? 'text-yellow-400' : 'text-gray-500'}`} title={disagrees ? 'The LLM-reported count differs from the text-match count.' : undefined}>
+                                  Text matches: {counted}{disagrees && ' (mismatch)'}
+                              </p>
+                              {prominence.length > 0 && (
+                                  <p className="text-xs text-gray-400 mb-1">{prominence.join(' · ')}</p>
+                              )}
+                              <SentimentBadge sentiment={analysis.sentiment} />
+                              {typeof analysis.sentimentScore === 'number' && (
+                                  <span className="ml-2 text-xs font-mono text-gray-300">{formatSentimentScore(analysis.sentimentScore)}</span>
+                              )}
+                              {analysis.sentimentRationale && (
+                                  <p className="text-xs text-gray-400 mt-2">{analysis.sentimentRationale}</p>
+                              )}
+                          </div>
+                      );
+                  })}
               </div>
           </div>
       </div>
@@ -69,7 +101,14 @@ const ProviderResponseContent: React.FC<{ providerResponse: ProviderResponse }>
 
 const ResponseCard: React.FC<{ result: AnalysisResult; index: number; config: AppConfig }> = ({ result, index, config }) => {
     const [isOpen, setIsOpen] = useState(false);
-    const [activeTab, setActiveTab] = useState<Provider>(config.providers[0]);
+    const targets = getAnalysisTargets(config);
+    const [activeTab, setActiveTab] = useState<string>(targets[0]?.key);
+    const [activeSample, setActiveSample] = useState(0);
+    const activeTarget = targets.find(t => t.key === activeTab);
+    const activeResponses = activeTarget ? findTargetResponses(result, activeTarget) : [];
+    const activeResponse = activeResponses[activeSample] ?? activeResponses[0];
+    // The same prompt may be asked in several markets, so each card says which one it was.
+    const { locale } = getPromptDetails(getResultPromptIndex(result, config), config);
 
     return (
         <div className="bg-gray-800 border border-gray-700 rounded-lg overflow-hidden">
@@ -80,6 +119,7 @@ const ResponseCard: React.FC<{ result: AnalysisResult; index: number; config: Ap
                 <h4 className="font-semibold text-gray-200">
                     <span className="text-green-400 mr-2">Prompt {index + 1}:</span> 
                     {result.prompt}
+                    {locale && <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full border border-gray-600 text-gray-400" title={locale}>{describeLocale(locale)}</span>}
                 </h4>
                 <svg
                     className={`w-5 h-5 text-gray-400 transition-transform transform ${isOpen ? 'rotate-180' : ''}`}
@@ -92,26 +132,40 @@ const ResponseCard: React.FC<{ result: AnalysisResult; index: number; config: Ap
                 <div className="p-1 md:p-2 bg-gray-800">
                     <div className="border-b border-gray-700">
                        <nav className="flex -mb-px space-x-1 md:space-x-4" aria-label="Tabs">
-                         {config.providers.map(provider => {
-                           const pResponse = result.providerResponses.find(pr => pr.provider === provider);
-                           const hasError = !!pResponse?.error;
+                         {targets.map(target => {
+                           const hasError = findTargetResponses(result, target).some(r => r.error);
                            return (
                              <button
-                               key={provider}
-                               onClick={() => setActiveTab(provider)}
+                               key={target.key}
+                               onClick={() => setActiveTab(target.key)}
                                className={`whitespace-nowrap py-3 px-2 md:px-4 border-b-2 font-medium text-sm transition-colors
-                                 ${activeTab === provider ? 'border-green-500 text-green-400' : 'border-transparent text-gray-400 hover:text-gray-200 hover:border-gray-500'}
+                                 ${activeTab === target.key ? 'border-green-500 text-green-400' : 'border-transparent text-gray-400 hover:text-gray-200 hover:border-gray-500'}
                                  ${hasError ? 'text-red-400' : ''}`}
                              >
-                               {getProviderDisplayName(provider, config)}
+                               {getTargetDisplayName(target)}
                              </button>
                            );
                          })}
                        </nav>
                     </div>
                     <div className="pt-6 pb-2 px-4">
-                       {result.providerResponses.find(pr => pr.provider === activeTab) ? (
-                            <ProviderResponseContent providerResponse={result.providerResponses.find(pr => pr.provider === activeTab)!} />
+                       {activeResponses.length > 1 && (
+                           <div className="flex flex-wrap gap-2 mb-4">
+                               {activeResponses.map((response, sampleIndex) => (
+                                   <button
+                                       key={sampleIndex}
+                                       onClick={() => setActiveSample(sampleIndex)}
+                                       className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors
+                                         ${response === activeResponse ? 'bg-green-800 text-green-300 border-green-600' : 'bg-gray-700 text-gray-300 border-gray-600 hover:bg-gray-600'}
+                                         ${response.error ? 'text-red-400' : ''}`}
+                                   >
+                                       Sample {sampleIndex + 1}
+                                   </button>
+                               ))}
+                           </div>
+                       )}
+                       {activeResponse ? (
+                            <ProviderResponseContent providerResponse={activeResponse} config={config} />
                        ) : (
                            <p className="text-gray-400">No response available for this provider.</p>
                        )}
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import type { Task } from '../types';
 
 const StatusIcon: React.FC<{ status: Task['status'] }> = ({ status }) => {
@@ -15,6 +15,8 @@ const StatusIcon: React.FC<{ status: Task['status'] }> = ({ status }) => {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
                 </svg>
             );
+        case 'cancelled':
+            return <div className="h-5 w-5 rounded-full border-2 border-gray-600 bg-gray-700" title="Cancelled"></div>;
         case 'error':
              return (
                 // FIX: Replaced title prop with <title> element for SVG accessibility and to fix the TypeScript error.
@@ -30,17 +32,51 @@ const StatusIcon: React.FC<{ status: Task['status'] }> = ({ status }) => {
 
 interface LoadingStatusProps {
   tasks: Task[];
+  isPaused: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
 }
 
-export const LoadingStatus: React.FC<LoadingStatusProps> = ({ tasks }) => {
+export const LoadingStatus: React.FC<LoadingStatusProps> = ({ tasks, isPaused, onPause, onResume, onCancel }) => {
+    const [isCancelling, setIsCancelling] = useState(false);
     const completedCount = tasks.filter(t => t.status === 'completed' || t.status === 'error').length;
     const totalCount = tasks.length;
     const progress = totalCount > 0 ? (completedCount / totalCount) * 100 : 0;
 
     return (
         <div className="max-w-2xl mx-auto bg-gray-800 p-8 rounded-xl shadow-2xl border border-gray-700">
-            <h3 className="text-xl font-semibold text-gray-200 text-center">Analyzing Responses...</h3>
-            <p className="text-gray-400 text-center mt-2 mb-6">Please wait while we perform the analysis. You can see the progress below.</p>
+            <h3 className="text-xl font-semibold text-gray-200 text-center">
+                {isCancelling ? 'Cancelling...' : isPaused ? 'Analysis Paused' : 'Analyzing Responses...'}
+            </h3>
+            <p className="text-gray-400 text-center mt-2 mb-6">
+                {isCancelling
+                    ? 'Stopping the requests in progress. Completed responses will be shown.'
+                    : isPaused
+                        ? 'No new requests will be sent until you resume. Requests already in progress will finish.'
+                        : 'Please wait while we perform the analysis. You can see the progress below.'}
+            </p>
+
+            <div className="flex justify-center space-x-3 mb-6">
+                <button
+                    onClick={isPaused ? onResume : onPause}
+                    disabled={isCancelling}
+                    className="bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isPaused ? 'Resume' : 'Pause'}
+                </button>
+                <button
+                    onClick={() => {
+                        setIsCancelling(true);
+                        onCancel();
+                    }}
+                    disabled={isCancelling}
+                    className="bg-red-700 hover:bg-red-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Stop the analysis and view the responses completed so far"
+                >
+                    Cancel &amp; View Results
+                </button>
+            </div>
             
             <div className="w-full bg-gray-700 rounded-full h-2.5 mb-4">
                 <div className="bg-green-600 h-2.5 rounded-full" style={{ width: `${progress}%`, transition: 'width 0.5s ease-in-out' }}></div>
@@ -57,6 +93,11 @@ export const LoadingStatus: React.FC<LoadingStatusProps> = ({ tasks }) => {
                             <p className={`text-sm font-medium ${task.status === 'error' ? 'text-red-400' : 'text-gray-300'}`}>
                                 {task.description}
                             </p>
+                            {task.retry && (
+                                <p className="text-xs text-yellow-400 mt-1">
+                                    {task.retry.reason}. Retrying in {Math.ceil(task.retry.delayMs / 1000)}s (attempt {task.retry.attempt} of {task.retry.maxAttempts}).
+                                </p>
+                            )}
                             {task.error && <p className="text-xs text-red-500 mt-1">{task.error}</p>}
                         </div>
                     </div>
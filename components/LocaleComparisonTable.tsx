@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import type { BrandLocaleData, LocaleMetrics } from '../types';
+import { NO_LOCALE, formatSentimentScore } from '../utils/aggregation';
+import { describeLocale } from '../utils/locales';
+
+interface LocaleComparisonTableProps {
+  data: BrandLocaleData[];
+  locales: string[];
+  clientName: string;
+  selectedLocale: string;
+  onSelectLocale: (locale: string) => void;
+}
+
+type MetricKey = keyof LocaleMetrics;
+
+const metrics: { key: MetricKey; label: string; higherIsBetter: boolean }[] = [
+  { key: 'shareOfVoice', label: 'Share of Voice', higherIsBetter: true },
+  { key: 'promptCoverage', label: 'Prompt Coverage', higherIsBetter: true },
+  { key: 'averageRank', label: 'Avg. Rank', higherIsBetter: false },
+  { key: 'averageSentiment', label: 'Avg. Sentiment', higherIsBetter: true },
+];
+
+const formatValue = (key: MetricKey, value: number | null) => {
+  if (value === null) return '–';
+  if (key === 'averageRank') return value.toFixed(1);
+  if (key === 'averageSentiment') return formatSentimentScore(value);
+  return `${Math.round(value * 100)}%`;
+};
+
+export const LocaleComparisonTable: React.FC<LocaleComparisonTableProps> = ({ data, locales, clientName, selectedLocale, onSelectLocale }) => {
+  const [metricKey, setMetricKey] = useState<MetricKey>('shareOfVoice');
+  const metric = metrics.find(m => m.key === metricKey)!;
+
+  // The best value in each locale is highlighted.
+  const best = Object.fromEntries(locales.map(locale => {
+    const values = data.map(d => d.byLocale[locale]?.[metricKey]).filter((v): v is number => v !== null && v !== undefined);
+    return [locale, values.length > 0 ? (metric.higherIsBetter ? Math.max(...values) : Math.min(...values)) : null];
+  }));
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-lg">
+      <div className="flex flex-wrap justify-between items-baseline gap-4">
+        <h3 className="text-xl font-semibold text-gray-100">Visibility by Locale</h3>
+        <select value={metricKey} onChange={(e) => setMetricKey(e.target.value as MetricKey)} className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-sm text-gray-200 focus:ring-2 focus:ring-green-500 focus:outline-none">
+          {metrics.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+        </select>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">Each tracked brand in every market of the run, over all models. Click a locale to filter the whole dashboard to it.</p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600">Brand</th>
+              {locales.map(locale => {
+                const isSelected = locale === selectedLocale;
+                return (
+                  <th key={locale} className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right" title={locale === NO_LOCALE ? 'Prompts without a locale' : locale}>
+                    <button onClick={() => onSelectLocale(isSelected ? '' : locale)} className={`hover:text-green-400 underline decoration-dotted underline-offset-4 ${isSelected ? 'text-green-400' : ''}`} aria-pressed={isSelected}>
+                      {locale === NO_LOCALE ? locale : describeLocale(locale)}
+                    </button>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {data.map(brand => {
+                const isClient = brand.brandName.toLowerCase() === clientName.toLowerCase();
+                return (
+                  <tr key={brand.brandName} className={`border-b border-gray-700 last:border-b-0 ${isClient ? 'bg-green-900/30' : ''}`}>
+                    <td className={`py-3 font-medium ${isClient ? 'text-green-400' : 'text-gray-200'}`}>{brand.brandName}</td>
+                    {locales.map(locale => {
+                      const value = brand.byLocale[locale]?.[metricKey] ?? null;
+                      const isBest = value !== null && value === best[locale];
+                      return (
+                        <td key={locale} className={`py-3 text-right font-mono ${isBest ? 'font-bold text-gray-100' : 'text-gray-300'} ${locale === selectedLocale ? 'bg-gray-700/40' : ''}`}>{formatValue(metricKey, value)}</td>
+                      );
+                    })}
+                  </tr>
+                );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
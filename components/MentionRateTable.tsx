@@ -0,0 +1,73 @@
+import React from 'react';
+import type { AppConfig, BrandMentionRateData, MentionRate } from '../types';
+import { getAnalysisTargets, getTargetDisplayName, getTargetShortName } from '../services/providers';
+import { getSamplesPerPrompt } from '../utils/aggregation';
+
+interface MentionRateTableProps {
+  data: BrandMentionRateData[];
+  clientName: string;
+  knownBrands: Set<string>;
+  config: AppConfig;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Wide intervals mean the rate could change substantially with another run.
+const intervalClass = (rate: MentionRate) => {
+  const width = rate.high - rate.low;
+  return width > 0.5 ? 'text-red-400' : width > 0.25 ? 'text-yellow-400' : 'text-gray-500';
+};
+
+export const MentionRateTable: React.FC<MentionRateTableProps> = ({ data, clientName, knownBrands, config }) => {
+  const targets = getAnalysisTargets(config);
+  const samples = getSamplesPerPrompt(config);
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-lg">
+      <h3 className="text-xl font-semibold text-gray-100">Mention Rate &amp; Stability</h3>
+      <p className="text-xs text-gray-500 mb-4">
+        Share of responses mentioning each brand, with its 95% confidence interval, and mentions per response ± standard deviation.
+        {' '}{samples > 1 ? `Each prompt was sampled ${samples} times.` : 'Each prompt was sampled once; run more samples per prompt for tighter intervals.'}
+      </p>
+      <div className="overflow-x-auto max-h-[400px] pr-2">
+        <table className="w-full text-left">
+          <thead className="sticky top-0 bg-gray-800 z-10">
+            <tr>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600">Brand</th>
+              {targets.map(t => (
+                <th key={t.key} className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right" title={getTargetDisplayName(t)}>{getTargetShortName(t)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {data.map(brand => {
+                const lowerCaseBrandName = brand.brandName.toLowerCase();
+                const isClient = lowerCaseBrandName === clientName.toLowerCase();
+                const isKnown = knownBrands.has(lowerCaseBrandName);
+
+                return (
+                  <tr key={brand.brandName} className={`border-b border-gray-700 last:border-b-0 ${isClient ? 'bg-green-900/30' : ''}`}>
+                    <td className={`py-3 font-medium ${isClient ? 'text-green-400' : 'text-gray-200'}`}>
+                      {brand.brandName}
+                      {!isKnown && <span className="ml-2 text-xs font-semibold text-yellow-500 tracking-wider" title="This brand was discovered during analysis and was not in your initial list.">(Discovered)</span>}
+                    </td>
+                    {targets.map(t => {
+                       const rate = brand.rates[t.key];
+                       if (!rate || rate.responses === 0) return <td key={t.key} className="py-3 text-right text-gray-500">–</td>;
+                       return (
+                         <td key={t.key} className="py-3 text-right font-mono" title={`Mentioned in ${rate.mentioned} of ${rate.responses} responses`}>
+                           <span className="text-gray-200">{percent(rate.rate)}</span>
+                           <span className={`ml-1 text-xs ${intervalClass(rate)}`}>({percent(rate.low)}–{percent(rate.high)})</span>
+                           <div className="text-xs text-gray-500">{rate.meanMentions.toFixed(1)} ± {rate.stdDevMentions.toFixed(1)}</div>
+                         </td>
+                       );
+                    })}
+                  </tr>
+                )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
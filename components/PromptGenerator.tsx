@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import type { AnalysisTarget, AppConfig, PromptGeneratorSettings, SetupUsage } from '../types';
+import { getTargetDisplayName, getTargetKey } from '../services/providers';
+import { MAX_GENERATED_PROMPTS, generatePrompts, isBrandedPrompt, normalizePrompt } from '../services/promptGenerator';
+
+interface PromptGeneratorProps {
+  // The form's current configuration, with the client, competitors, prompts and API keys.
+  config: AppConfig;
+  // The configured provider+models, one of which drafts the prompts.
+  targets: AnalysisTarget[];
+  onAccept: (prompts: string[], settings: PromptGeneratorSettings) => void;
+  // Called with the tokens of every generation request, accepted or not.
+  onUsage: (usage: SetupUsage) => void;
+}
+
+interface Draft {
+  text: string;
+  selected: boolean;
+}
+
+const DEFAULT_COUNT = 30;
+
+export const PromptGenerator: React.FC<PromptGeneratorProps> = ({ config, targets, onAccept, onUsage }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [targetKey, setTargetKey] = useState<string>('');
+  const [category, setCategory] = useState<string>('');
+  const [personas, setPersonas] = useState<string>('');
+  const [count, setCount] = useState<number>(DEFAULT_COUNT);
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const target = targets.find(t => t.key === targetKey) ?? targets[0];
+  const settings: PromptGeneratorSettings | null = target ? {
+    provider: target.provider,
+    model: target.model,
+    category: category.trim(),
+    personas: personas.split('\n').map(p => p.trim()).filter(Boolean),
+    count,
+  } : null;
+
+  // A draft repeats an earlier draft or a prompt already in the form.
+  const seen = new Set(config.prompts.map(normalizePrompt));
+  const duplicates = drafts.map(draft => {
+    const key = normalizePrompt(draft.text);
+    const isDuplicate = seen.has(key);
+    if (key) seen.add(key);
+    return isDuplicate;
+  });
+  const isAccepted = (draft: Draft, index: number) => draft.selected && !duplicates[index] && !!draft.text.trim();
+  const selectedCount = drafts.filter(isAccepted).length;
+
+  // Starts from the settings saved with the loaded configuration, if it was generated.
+  const handleOpen = () => {
+    const saved = config.promptGenerator;
+    if (saved) {
+      setTargetKey(getTargetKey(saved.provider, saved.model));
+      setCategory(saved.category);
+      setPersonas(saved.personas.join('\n'));
+      setCount(saved.count);
+    }
+    setIsOpen(true);
+  };
+
+  const handleGenerate = async () => {
+    if (!settings) return;
+    setIsGenerating(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const generated = await generatePrompts(settings, config, [...config.prompts, ...drafts.map(d => d.text)], onUsage,
+        retry => setNotice(`${retry.reason}, retrying in ${Math.ceil(retry.delayMs / 1000)}s (attempt ${retry.attempt} of ${retry.maxAttempts})...`));
+      setDrafts(prev => [...prev, ...generated.prompts.map(text => ({ text, selected: true }))]);
+      if (generated.prompts.length === 0) setNotice('No new prompts were generated. Try a different category or more personas.');
+      else if (generated.discarded > 0) setNotice(`${generated.discarded} draft${generated.discarded === 1 ? ' was' : 's were'} left out for naming a tracked brand or repeating another prompt.`);
+      else setNotice(null);
+    } catch (e) {
+      console.error('Prompt generation failed:', e);
+      setNotice(null);
+      setError(e instanceof Error ? e.message : 'Prompt generation failed.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const updateDraft = (index: number, change: Partial<Draft>) => {
+    setDrafts(prev => prev.map((d, i) => i === index ? { ...d, ...change } : d));
+  };
+
+  const handleRemoveDuplicates = () => {
+    setDrafts(prev => prev.filter((_, i) => !duplicates[i]));
+  };
+
+  const handleAccept = () => {
+    if (!settings) return;
+    onAccept(drafts.filter(isAccepted).map(d => d.text.trim()), settings);
+    setDrafts(prev => prev.filter((d, i) => !isAccepted(d, i)));
+    setNotice(null);
+  };
+
+  if (!isOpen) {
+    return (
+      <button type="button" onClick={handleOpen} className="mt-2 ml-4 text-sm text-green-400 hover:text-green-300">
+        Generate prompts from a brief
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-3 bg-gray-900/50 p-4 rounded-lg border border-gray-700 space-y-3">
+      <div className="flex justify-between items-baseline">
+        <h4 className="font-semibold text-gray-200">Prompt Generator</h4>
+        <button type="button" onClick={() => setIsOpen(false)} className="text-sm text-gray-400 hover:text-gray-200">Close</button>
+      </div>
+      <p className="text-xs text-gray-500">Drafts unbranded, buyer-style prompts for {config.clientName || 'the client'}'s category. Drafts naming the client or a competitor are left out. Review and edit them before adding them to the prompts.</p>
+
+      {targets.length === 0 ? (
+        <p className="text-sm text-gray-400">Select a provider and model above to generate prompts.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <label className="block text-sm text-gray-300">
+            <span className="block mb-1">Product category</span>
+            <input type="text" value={category} onChange={(e) => setCategory(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-green-500 focus:outline-none" placeholder="e.g., digital asset management software" />
+          </label>
+          <label className="block text-sm text-gray-300">
+            <span className="block mb-1">Model</span>
+            <select value={target.key} onChange={(e) => setTargetKey(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-green-500 focus:outline-none">
+              {targets.map(t => <option key={t.key} value={t.key}>{getTargetDisplayName(t)}</option>)}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-300">
+            <span className="block mb-1">Target personas, one per line</span>
+            <textarea value={personas} onChange={(e) => setPersonas(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-sm h-20 focus:ring-2 focus:ring-green-500 focus:outline-none" placeholder="e.g., Marketing manager at a retail chain&#x0a;IT lead at a university" />
+          </label>
+          <div className="flex flex-col justify-between gap-3">
+            <label className="block text-sm text-gray-300">
+              <span className="block mb-1">Number of prompts</span>
+              <input type="number" min={1} max={MAX_GENERATED_PROMPTS} value={count} onChange={(e) => setCount(Math.min(MAX_GENERATED_PROMPTS, Math.max(1, Math.floor(Number(e.target.value)) || 1)))} className="w-32 bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-green-500 focus:outline-none" />
+            </label>
+            <button type="button" onClick={handleGenerate} disabled={isGenerating || !category.trim() || !config.clientName} className="self-start bg-green-600 hover:bg-green-700 text-white text-sm font-bold py-1.5 px-3 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+              {isGenerating ? 'Generating...' : drafts.length > 0 ? 'Generate More' : 'Generate Prompts'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {drafts.length > 0 && (
+        <ul className="max-h-80 overflow-y-auto pr-2 space-y-1">
+          {drafts.map((draft, index) => {
+            const isBranded = isBrandedPrompt(draft.text, config);
+            return (
+              <li key={index} className="flex items-center gap-3 text-sm">
+                <input type="checkbox" checked={draft.selected && !duplicates[index]} onChange={(e) => updateDraft(index, { selected: e.target.checked })} disabled={duplicates[index]} aria-label={`Accept "${draft.text}"`} className="h-4 w-4 rounded bg-gray-700 border-gray-500 text-green-600 focus:ring-green-500" />
+                <input type="text" value={draft.text} onChange={(e) => updateDraft(index, { text: e.target.value })} aria-label={`Prompt ${index + 1}`} className={`flex-grow bg-gray-900 border rounded-lg px-3 py-1 focus:ring-2 focus:ring-green-500 focus:outline-none ${duplicates[index] ? 'border-gray-700 text-gray-500' : 'border-gray-600 text-gray-200'}`} />
+                {duplicates[index] && <span className="text-xs text-gray-500">(duplicate)</span>}
+                {!duplicates[index] && isBranded && <span className="text-xs text-yellow-400" title="Prompts naming a tracked brand skew its visibility.">(names a brand)</span>}
+                <button type="button" onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))} className="text-gray-500 hover:text-red-400" title="Discard" aria-label={`Discard "${draft.text}"`}>&times;</button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {drafts.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={handleAccept} disabled={selectedCount === 0} className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold py-1.5 px-3 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+            Add {selectedCount || ''} Selected to Prompts
+          </button>
+          {duplicates.some(Boolean) && (
+            <button type="button" onClick={handleRemoveDuplicates} className="text-sm text-gray-300 hover:text-white py-1.5 px-3 rounded-lg border border-gray-600 hover:bg-gray-700 transition-colors">
+              Remove Duplicates
+            </button>
+          )}
+          <button type="button" onClick={() => setDrafts([])} className="text-sm text-gray-400 hover:text-gray-200 py-1.5 px-3">Discard All</button>
+        </div>
+      )}
+      {notice && <p className="text-sm text-gray-400">{notice}</p>}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
\ No newline at end of file
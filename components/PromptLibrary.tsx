@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import type { LibraryPrompt } from '../types';
+import { addLibraryPrompts, deleteLibraryPrompt, getLibraryPrompts } from '../services/templateService';
+
+interface PromptLibraryProps {
+  // The prompts currently in the form.
+  prompts: string[];
+  onAddPrompts: (prompts: string[]) => void;
+}
+
+const splitTags = (value: string) => Array.from(new Set(value.split(',').map(t => t.trim().toLowerCase()).filter(Boolean)));
+
+export const PromptLibrary: React.FC<PromptLibraryProps> = ({ prompts, onAddPrompts }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [library, setLibrary] = useState<LibraryPrompt[] | null>(null);
+  const [activeTags, setActiveTags] = useState<string[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [newTags, setNewTags] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Loaded the first time the library is opened.
+  useEffect(() => {
+    if (!isOpen || library) return;
+    getLibraryPrompts().then(setLibrary).catch(e => {
+      console.error('Failed to load prompt library:', e);
+      setError(e instanceof Error ? e.message : 'Failed to load prompt library.');
+    });
+  }, [isOpen, library]);
+
+  const allTags = Array.from(new Set((library || []).flatMap(p => p.tags))).sort();
+  // A prompt is shown when it has every active tag.
+  const visible = (library || []).filter(p => activeTags.every(tag => p.tags.includes(tag)));
+  const inForm = new Set(prompts.map(p => p.toLowerCase()));
+  const inLibrary = new Set((library || []).map(p => p.text.toLowerCase()));
+  const unsaved = prompts.filter(p => !inLibrary.has(p.toLowerCase()));
+
+  const toggleTag = (tag: string) => {
+    setActiveTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleAddSelected = () => {
+    onAddPrompts((library || []).filter(p => selectedIds.has(p.id)).map(p => p.text));
+    setSelectedIds(new Set());
+  };
+
+  const handleSaveToLibrary = async () => {
+    setError(null);
+    try {
+      const added = await addLibraryPrompts(unsaved, splitTags(newTags));
+      setLibrary(prev => [...added, ...(prev || [])]);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to add prompts to the library.');
+    }
+  };
+
+  const handleDelete = async (prompt: LibraryPrompt) => {
+    if (!confirm(`Remove "${prompt.text}" from the shared library?`)) return;
+    setError(null);
+    try {
+      await deleteLibraryPrompt(prompt.id);
+      setLibrary(prev => (prev || []).filter(p => p.id !== prompt.id));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to delete library prompt.');
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button type="button" onClick={() => setIsOpen(true)} className="mt-2 text-sm text-green-400 hover:text-green-300">
+        Browse prompt library
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-3 bg-gray-900/50 p-4 rounded-lg border border-gray-700 space-y-3">
+      <div className="flex justify-between items-baseline">
+        <h4 className="font-semibold text-gray-200">Prompt Library</h4>
+        <button type="button" onClick={() => setIsOpen(false)} className="text-sm text-gray-400 hover:text-gray-200">Close</button>
+      </div>
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {allTags.map(tag => (
+            <button key={tag} type="button" onClick={() => toggleTag(tag)} className={`px-2 py-0.5 rounded-full border text-xs transition-colors ${activeTags.includes(tag) ? 'border-green-500 bg-green-900/30 text-green-300' : 'border-gray-600 text-gray-400 hover:bg-gray-700'}`}>
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {library === null && !error && <p className="text-sm text-gray-400">Loading...</p>}
+      {library?.length === 0 && <p className="text-sm text-gray-400">The library is empty. Save your prompts below to start it.</p>}
+      {visible.length > 0 && (
+        <ul className="max-h-64 overflow-y-auto pr-2 space-y-1">
+          {visible.map(p => {
+            const isInForm = inForm.has(p.text.toLowerCase());
+            return (
+              <li key={p.id} className="flex items-start gap-3 text-sm">
+                <input type="checkbox" checked={selectedIds.has(p.id)} onChange={() => toggleSelected(p.id)} disabled={isInForm} className="mt-0.5 h-4 w-4 rounded bg-gray-700 border-gray-500 text-green-600 focus:ring-green-500" />
+                <span className={`flex-grow ${isInForm ? 'text-gray-500' : 'text-gray-200'}`}>
+                  {p.text}
+                  {p.tags.map(tag => <span key={tag} className="ml-2 text-xs text-gray-500">#{tag}</span>)}
+                  {isInForm && <span className="ml-2 text-xs text-gray-500">(already added)</span>}
+                </span>
+                <button type="button" onClick={() => handleDelete(p)} className="text-gray-500 hover:text-red-400" title="Remove from library" aria-label={`Remove "${p.text}" from library`}>&times;</button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <button type="button" onClick={handleAddSelected} disabled={selectedIds.size === 0} className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold py-1.5 px-3 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+        Add {selectedIds.size || ''} Selected to Prompts
+      </button>
+
+      {library && unsaved.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 border-t border-gray-700 pt-3">
+          <input type="text" value={newTags} onChange={(e) => setNewTags(e.target.value)} className="flex-grow bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-green-500 focus:outline-none" placeholder="Tags, comma-separated, e.g. saas, consideration" />
+          <button type="button" onClick={handleSaveToLibrary} className="bg-green-600 hover:bg-green-700 text-white text-sm font-bold py-1.5 px-3 rounded-lg transition-colors">
+            Share {unsaved.length} New Prompt{unsaved.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import type { AnalysisTarget, AppConfig, SetupUsage } from '../types';
+import { getJudgeTarget, getTargetDisplayName } from '../services/providers';
+import { translatePrompts } from '../services/promptTranslation';
+import { getPromptDetails } from '../utils/aggregation';
+import { describeLocale, splitLocales } from '../utils/locales';
+
+export interface TranslatedPrompt {
+  source: number; // position in the prompts of the one it was translated from
+  text: string;
+  locale: string;
+}
+
+interface PromptTranslatorProps {
+  // The form's current configuration, with the prompts, their details and API keys.
+  config: AppConfig;
+  // The configured provider+models, one of which translates.
+  targets: AnalysisTarget[];
+  onTranslate: (sourceLocale: string, translated: TranslatedPrompt[]) => void;
+  // Called with the tokens of every translation request.
+  onUsage: (usage: SetupUsage) => void;
+}
+
+export const PromptTranslator: React.FC<PromptTranslatorProps> = ({ config, targets, onTranslate, onUsage }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [targetKey, setTargetKey] = useState<string>('');
+  const [sourceLocale, setSourceLocale] = useState<string>('en');
+  const [locales, setLocales] = useState<string>('');
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Defaults to the judge, which already has to read every language of the run.
+  const target = targets.find(t => t.key === targetKey) ?? targets.find(t => t.key === getJudgeTarget(config)?.key) ?? targets[0];
+  const source = sourceLocale.trim();
+  // Prompts without a locale are taken to be in the source locale.
+  const sources = config.prompts.map((_, i) => i).filter(i => {
+    const { locale } = getPromptDetails(i, config);
+    return !locale || locale === source;
+  });
+  const targetLocales = splitLocales(locales).filter(l => l !== source);
+
+  // Locales are translated one after another; those finished before a failure are kept.
+  const handleTranslate = async () => {
+    if (!target) return;
+    setError(null);
+    const translated: TranslatedPrompt[] = [];
+    try {
+      for (const locale of targetLocales) {
+        const market = describeLocale(locale);
+        setProgress(`Translating into ${market}...`);
+        const translations = await translatePrompts(sources.map(i => config.prompts[i]), locale, target, config, onUsage,
+          retry => setProgress(`${retry.reason}, retrying ${market} in ${Math.ceil(retry.delayMs / 1000)}s...`));
+        translations.forEach((text, i) => translated.push({ source: sources[i], text, locale }));
+      }
+    } catch (e) {
+      console.error('Prompt translation failed:', e);
+      setError(e instanceof Error ? e.message : 'Prompt translation failed.');
+    } finally {
+      setProgress(null);
+    }
+    if (translated.length > 0) onTranslate(source, translated);
+  };
+
+  if (!isOpen) {
+    return (
+      <button type="button" onClick={() => setIsOpen(true)} className="mt-2 ml-4 text-sm text-green-400 hover:text-green-300">
+        Translate for other markets
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-3 bg-gray-900/50 p-4 rounded-lg border border-gray-700 space-y-3">
+      <div className="flex justify-between items-baseline">
+        <h4 className="font-semibold text-gray-200">Translate Prompts</h4>
+        <button type="button" onClick={() => setIsOpen(false)} className="text-sm text-gray-400 hover:text-gray-200">Close</button>
+      </div>
+      <p className="text-xs text-gray-500">Adds a localized copy of every prompt in the source locale for each target locale, with the same category and funnel stage. Each response is then analyzed in its prompt's language, and the results compare locales side by side. Prompts can also be entered per locale directly, under Prompt Categories.</p>
+
+      {targets.length === 0 ? (
+        <p className="text-sm text-gray-400">Select a provider and model above to translate prompts.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <label className="block text-sm text-gray-300">
+            <span className="block mb-1">Source locale</span>
+            <input type="text" value={sourceLocale} onChange={(e) => setSourceLocale(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-green-500 focus:outline-none" placeholder="e.g., en" />
+          </label>
+          <label className="block text-sm text-gray-300">
+            <span className="block mb-1">Target locales</span>
+            <input type="text" value={locales} onChange={(e) => setLocales(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-green-500 focus:outline-none" placeholder="e.g., de-DE, fr-FR, nl-NL" />
+          </label>
+          <label className="block text-sm text-gray-300">
+            <span className="block mb-1">Model</span>
+            <select value={target.key} onChange={(e) => setTargetKey(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-green-500 focus:outline-none">
+              {targets.map(t => <option key={t.key} value={t.key}>{getTargetDisplayName(t)}</option>)}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {targetLocales.length > 0 && (
+        <p className="text-sm text-gray-400">
+          {sources.length} prompt{sources.length === 1 ? '' : 's'} into {targetLocales.map(describeLocale).join(', ')}.
+        </p>
+      )}
+      <button type="button" onClick={handleTranslate} disabled={!target || !source || !!progress || sources.length === 0 || targetLocales.length === 0} className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold py-1.5 px-3 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+        {progress ?? 'Translate Prompts'}
+      </button>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
\ No newline at end of file
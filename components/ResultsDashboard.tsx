@@ -1,5 +1,5 @@
-import React from 'react';
-import type { AnalysisResult, AppConfig, Provider, SentimentData } from '../types';
+import React, { useState } from 'react';
+import type { AnalysisResult, AppConfig } from '../types';
 import { SummaryCards } from './SummaryCards';
 import { SentimentChart } from './SentimentChart';
 import { IndividualResponses } from './IndividualResponses';
@@ -7,133 +7,152 @@ import { ExportButton } from './ExportButton';
 import { AdditionalQuestionsSummary } from './AdditionalQuestionsSummary';
 import { BrandMentionsTable } from './BrandMentionsTable';
 import { SentimentScoresTable } from './SentimentScoresTable';
-
-const providerBaseNames: Record<Provider, string> = {
-    gemini: 'Google Gemini',
-    openai: 'OpenAI',
-    perplexity: 'Perplexity',
-    copilot: 'Copilot / Azure'
-};
+import { VisibilityRankingTable } from './VisibilityRankingTable';
+import { CitedSourcesTable } from './CitedSourcesTable';
+import { MentionRateTable } from './MentionRateTable';
+import { UsageCostTable } from './UsageCostTable';
+import { CompetitiveLeaderboard } from './CompetitiveLeaderboard';
+import { CategoryBreakdownTable } from './CategoryBreakdownTable';
+import { LocaleComparisonTable } from './LocaleComparisonTable';
+import { getAnalysisTargets, getJudgeTarget, getTargetDisplayName } from '../services/providers';
+import { describeLocale } from '../utils/locales';
+import { NO_LOCALE, UNCATEGORIZED, aggregateBrandMentions, aggregateCategoryBreakdown, aggregateCitedDomains, aggregateLeaderboard, aggregateLocaleComparison, aggregateMentionRates, aggregateSentiments, aggregateVisibility, buildSentimentChartData, filterByCategory, filterByLocale, getClientCitationsByTarget, getPromptCategories, getPromptLocales, getResponseCoverage, getSamplesPerPrompt, getTrackedBrands } from '../utils/aggregation';
 
 interface ResultsDashboardProps {
   results: AnalysisResult[];
   config: AppConfig;
-  onSaveReport: () => void;
+  // Omitted when viewing a report that has already been saved.
+  onSaveReport?: () => void;
+  // Omitted when the API keys needed to retry are not available, as for saved reports.
+  onRetryFailed?: () => void;
 }
 
-export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results, config, onSaveReport }) => {
+export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results: allResults, config: allConfig, onSaveReport, onRetryFailed }) => {
+  const categories = getPromptCategories(allConfig);
+  const isCategorized = categories.some(c => c !== UNCATEGORIZED);
+  const locales = getPromptLocales(allConfig);
+  const isLocalized = locales.length > 1;
+  const [category, setCategory] = useState<string>('');
+  const [locale, setLocale] = useState<string>('');
+  // Every view below is narrowed to the selected category and locale; exporting and retrying use
+  // the whole run. Each breakdown is narrowed by the other filter only.
+  const all = { results: allResults, config: allConfig };
+  const inCategory = category ? filterByCategory(allResults, allConfig, category) : all;
+  const inLocale = locale ? filterByLocale(allResults, allConfig, locale) : all;
+  const { results, config } = locale ? filterByLocale(inCategory.results, inCategory.config, locale) : inCategory;
   
-  const knownBrandsLower = new Set([config.clientName, ...config.competitors].map(b => b.toLowerCase()));
-  const allKnownBrands = [config.clientName, ...config.competitors];
+  const targets = getAnalysisTargets(config);
+  const knownBrandsLower = new Set(getTrackedBrands(config).map(b => b.toLowerCase()));
   
   // --- Data Aggregation for Comparative Views ---
+  const brandMentionsData = aggregateBrandMentions(results, config);
+  const sentimentScoresData = aggregateSentiments(results, config);
+  const chartSentimentData = buildSentimentChartData(sentimentScoresData, config);
+  const visibilityData = aggregateVisibility(results, config);
+  const citedDomainsData = aggregateCitedDomains(results, config);
+  const mentionRateData = aggregateMentionRates(results, config);
+  const leaderboardData = aggregateLeaderboard(results, config);
   
-  // 1. Aggregate Brand Mentions
-  const mentionsMap = new Map<string, { brandName: string, mentions: Record<Provider, number> }>();
-  
-  results.forEach(result => {
-    result.providerResponses.forEach(pResponse => {
-      pResponse.brandAnalyses.forEach(analysis => {
-        if (typeof analysis.brandName === 'string') {
-          const lowerCaseBrand = analysis.brandName.toLowerCase();
-          if (!mentionsMap.has(lowerCaseBrand)) {
-            mentionsMap.set(lowerCaseBrand, { brandName: analysis.brandName, mentions: { gemini: 0, openai: 0, perplexity: 0, copilot: 0 } });
-          }
-          const entry = mentionsMap.get(lowerCaseBrand)!;
-          entry.mentions[pResponse.provider] += analysis.mentions;
-        }
-      });
-    });
-  });
-
-  allKnownBrands.forEach(brand => {
-    const lowerCaseBrand = brand.toLowerCase();
-    if (!mentionsMap.has(lowerCaseBrand)) {
-       mentionsMap.set(lowerCaseBrand, { brandName: brand, mentions: { gemini: 0, openai: 0, perplexity: 0, copilot: 0 } });
-    }
-  });
-
-  const brandMentionsData = Array.from(mentionsMap.values()).sort((a, b) => {
-    const totalA = Object.values(a.mentions).reduce((s, c) => s + c, 0);
-    const totalB = Object.values(b.mentions).reduce((s, c) => s + c, 0);
-    return totalB - totalA;
-  });
-
-  // 2. Aggregate Sentiment Scores
-  const sentimentMap = new Map<string, { brandName: string, sentiments: Record<Provider, { P: number, N: number, Nl: number }> }>();
-
-  results.forEach(result => {
-      result.providerResponses.forEach(pResponse => {
-          pResponse.brandAnalyses.forEach(analysis => {
-              if (typeof analysis.brandName === 'string' && analysis.sentiment !== 'Not Mentioned') {
-                  const lowerCaseBrand = analysis.brandName.toLowerCase();
-                  if (!sentimentMap.has(lowerCaseBrand)) {
-                      sentimentMap.set(lowerCaseBrand, { brandName: analysis.brandName, sentiments: { 
-                          gemini: { P: 0, N: 0, Nl: 0 }, openai: { P: 0, N: 0, Nl: 0 }, 
-                          perplexity: { P: 0, N: 0, Nl: 0 }, copilot: { P: 0, N: 0, Nl: 0 } 
-                      }});
-                  }
-                  const entry = sentimentMap.get(lowerCaseBrand)!;
-                  if (analysis.sentiment === 'Positive') entry.sentiments[pResponse.provider].P++;
-                  if (analysis.sentiment === 'Negative') entry.sentiments[pResponse.provider].N++;
-                  if (analysis.sentiment === 'Neutral') entry.sentiments[pResponse.provider].Nl++;
-              }
-          });
-      });
-  });
-
-   allKnownBrands.forEach(brand => {
-    const lowerCaseBrand = brand.toLowerCase();
-    if (!sentimentMap.has(lowerCaseBrand)) {
-       sentimentMap.set(lowerCaseBrand, { brandName: brand, sentiments: { 
-          gemini: { P: 0, N: 0, Nl: 0 }, openai: { P: 0, N: 0, Nl: 0 }, 
-          perplexity: { P: 0, N: 0, Nl: 0 }, copilot: { P: 0, N: 0, Nl: 0 } 
-      }});
-    }
-  });
-  
-  const sentimentScoresData = Array.from(sentimentMap.values());
-
-  // 3. Prepare data for Sentiment Chart (only known brands)
-  const chartSentimentData = allKnownBrands.map(brand => {
-      const lowerCaseBrand = brand.toLowerCase();
-      const sentimentEntry = sentimentMap.get(lowerCaseBrand);
-      const dataPoint: SentimentData = { name: brand };
-
-      config.providers.forEach(provider => {
-          const sentiments = sentimentEntry?.sentiments[provider] || { P: 0, N: 0, Nl: 0 };
-          dataPoint[`Positive-${provider}`] = sentiments.P;
-          dataPoint[`Neutral-${provider}`] = sentiments.Nl;
-          dataPoint[`Negative-${provider}`] = sentiments.N;
-      });
-      return dataPoint;
-  });
-  
-  const selectedProviderNames = config.providers.map(p => `${providerBaseNames[p]} (${config.models[p]})`).join(', ');
+  const selectedProviderNames = targets.map(getTargetDisplayName).join(', ');
+  const samples = getSamplesPerPrompt(config);
+  const judge = getJudgeTarget(config);
+  const coverage = getResponseCoverage(results, config);
+  const countFailed = (rs: AnalysisResult[]) => rs.reduce((sum, r) => sum + r.providerResponses.filter(pr => pr.error).length, 0);
+  // Responses are only ever missing because a run was cancelled; failed ones are kept with their error.
+  const missingCount = coverage.expected - coverage.collected;
+  const failedInView = countFailed(results);
+  const failedCount = countFailed(allResults);
+  // Generating and translating prompts can't be split by category or locale, so filtered views leave it out.
+  const isFiltered = !!(category || locale);
+  const usageConfig = isFiltered ? { ...config, setupUsage: undefined } : config;
+  // Reports saved before usage was recorded have none to show.
+  const hasUsage = results.some(r => r.providerResponses.some(pr => pr.usage)) || !!usageConfig.setupUsage?.length;
 
   return (
     <div className="space-y-8">
       <div className="flex justify-between items-start">
         <div>
             <h2 className="text-3xl font-bold text-green-400">Analysis complete for "{config.clientName}"</h2>
-            <p className="text-gray-400 mt-1">Showing results for {results.length} prompts using <span className="font-semibold text-gray-300">{selectedProviderNames}</span>.</p>
+            <p className="text-gray-400 mt-1">Showing results for {results.length} prompts using <span className="font-semibold text-gray-300">{selectedProviderNames}</span>{samples > 1 && `, ${samples} samples per prompt`}.</p>
+            <p className="text-gray-400 text-sm mt-1">{judge ? <>Brand analysis and additional questions by <span className="font-semibold text-gray-300">{getTargetDisplayName(judge)}</span>.</> : 'Each model analyzed its own responses.'}</p>
         </div>
         <div className="flex items-center space-x-2 flex-shrink-0">
-          <button 
-              onClick={onSaveReport}
-              className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg transition-colors flex items-center space-x-2"
-              title="Save this report to your browser's local storage"
-          >
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                <path d="M5 4a2 2 0 012-2h6a2 2 0 012 2v10a2 2 0 01-2 2H7a2 2 0 01-2-2V4zm3 1h4a1 1 0 00-1-1H7a1 1 0 00-1 1v1h6V5z" />
-              </svg>
-              <span>Save Report</span>
-          </button>
-          <ExportButton results={results} config={config} />
+          {onRetryFailed && failedCount > 0 && (
+            <button
+                onClick={onRetryFailed}
+                className="bg-yellow-600 hover:bg-yellow-700 text-white font-bold py-2 px-4 rounded-lg transition-colors flex items-center space-x-2"
+                title="Run the failed responses again, keeping the successful ones"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M4 2a1 1 0 011 1v2.101a7.002 7.002 0 0111.601 2.566 1 1 0 11-1.885.666A5.002 5.002 0 005.999 7H9a1 1 0 010 2H4a1 1 0 01-1-1V3a1 1 0 011-1zm.008 9.057a1 1 0 011.276.61A5.002 5.002 0 0014.001 13H11a1 1 0 110-2h5a1 1 0 011 1v5a1 1 0 11-2 0v-2.101a7.002 7.002 0 01-11.601-2.566 1 1 0 01.61-1.276z" clipRule="evenodd" />
+                </svg>
+                <span>Retry Failed ({failedCount})</span>
+            </button>
+          )}
+          {onSaveReport && (
+            <button 
+                onClick={onSaveReport}
+                className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg transition-colors flex items-center space-x-2"
+                title="Save this report to your browser's local storage"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                  <path d="M5 4a2 2 0 012-2h6a2 2 0 012 2v10a2 2 0 01-2 2H7a2 2 0 01-2-2V4zm3 1h4a1 1 0 00-1-1H7a1 1 0 00-1 1v1h6V5z" />
+                </svg>
+                <span>Save Report</span>
+            </button>
+          )}
+          <ExportButton results={allResults} config={allConfig} />
         </div>
       </div>
 
-      <SummaryCards results={results} clientName={config.clientName} providers={config.providers} />
+      {(missingCount > 0 || failedInView > 0) && (
+        <div className="bg-yellow-900/30 border border-yellow-700 text-yellow-300 px-4 py-3 rounded-lg" role="status">
+          <strong className="font-bold">Partial results: </strong>
+          {coverage.collected - failedInView} of {coverage.expected} responses succeeded.
+          {failedInView > 0 && ` ${failedInView} failed${onRetryFailed ? ' and can be retried' : ''}.`}
+          {missingCount > 0 && ` ${missingCount} ${missingCount === 1 ? 'was' : 'were'} not collected because the analysis was cancelled before ${missingCount === 1 ? 'it' : 'they'} completed.`}
+        </div>
+      )}
+
+      {(isCategorized || isLocalized) && (
+        <div className="flex flex-wrap items-center gap-3">
+          {isCategorized && (
+            <>
+              <label htmlFor="category-filter" className="text-sm font-medium text-gray-300">Prompt category</label>
+              <select id="category-filter" value={category} onChange={(e) => setCategory(e.target.value)} className="bg-gray-800 border border-gray-600 rounded-lg px-3 py-1.5 text-sm text-gray-200 focus:ring-2 focus:ring-green-500 focus:outline-none">
+                <option value="">All categories</option>
+                {categories.map(c => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+            </>
+          )}
+          {isLocalized && (
+            <>
+              <label htmlFor="locale-filter" className="text-sm font-medium text-gray-300">Locale</label>
+              <select id="locale-filter" value={locale} onChange={(e) => setLocale(e.target.value)} className="bg-gray-800 border border-gray-600 rounded-lg px-3 py-1.5 text-sm text-gray-200 focus:ring-2 focus:ring-green-500 focus:outline-none">
+                <option value="">All locales</option>
+                {locales.map(l => (
+                  <option key={l} value={l}>{l === NO_LOCALE ? l : describeLocale(l)}</option>
+                ))}
+              </select>
+            </>
+          )}
+          {isFiltered && <span className="text-sm text-gray-400">Showing {results.length} of {allResults.length} prompts.</span>}
+        </div>
+      )}
+
+      {isCategorized && (
+        <CategoryBreakdownTable data={aggregateCategoryBreakdown(inLocale.results, inLocale.config)} clientName={allConfig.clientName} selectedCategory={category} onSelectCategory={setCategory} />
+      )}
+
+      {isLocalized && (
+        <LocaleComparisonTable data={aggregateLocaleComparison(inCategory.results, inCategory.config)} locales={getPromptLocales(inCategory.config)} clientName={allConfig.clientName} selectedLocale={locale} onSelectLocale={setLocale} />
+      )}
+
+      <SummaryCards results={results} config={config} targets={targets} visibility={visibilityData} leaderboard={leaderboardData} />
+
+      <CompetitiveLeaderboard data={leaderboardData} clientName={config.clientName} config={config} />
         
       <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
         <div className="lg:col-span-2">
@@ -144,11 +163,19 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results, con
         </div>
       </div>
       
+      <MentionRateTable data={mentionRateData} clientName={config.clientName} knownBrands={knownBrandsLower} config={config} />
+
+      <VisibilityRankingTable data={visibilityData} clientName={config.clientName} knownBrands={knownBrandsLower} config={config} />
+      
       <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-lg">
           <h3 className="text-xl font-semibold mb-4">Comparative Sentiment Analysis (Tracked Brands)</h3>
-          <SentimentChart data={chartSentimentData} providers={config.providers} />
+          <SentimentChart data={chartSentimentData} targets={targets} />
       </div>
+
+      <CitedSourcesTable data={citedDomainsData} clientCitations={getClientCitationsByTarget(results, config)} config={config} />
         
+      {hasUsage && <UsageCostTable results={results} config={usageConfig} />}
+
       {config.additionalQuestions.length > 0 && <AdditionalQuestionsSummary results={results} config={config}/>}
       
       <IndividualResponses results={results} config={config} />
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import type { ApiKeys, AppConfig, RunCheckpoint } from '../types';
+import { getMissingCredentials, getProviderAdapter } from '../services/providers';
+import { getRunProviders } from '../services/geminiService';
+import { getResponseCoverage } from '../utils/aggregation';
+
+interface ResumeRunPromptProps {
+  checkpoint: RunCheckpoint;
+  onResume: (config: AppConfig, checkpoint: RunCheckpoint) => void;
+  onDiscard: () => void;
+}
+
+// API keys are never checkpointed, so they are asked for again before resuming.
+export const ResumeRunPrompt: React.FC<ResumeRunPromptProps> = ({ checkpoint, onResume, onDiscard }) => {
+  const { config } = checkpoint;
+  const [apiKeys, setApiKeys] = useState<ApiKeys>({});
+
+  const responses = Object.values(checkpoint.responses);
+  const { expected } = getResponseCoverage([], config);
+  const succeeded = responses.filter(r => !r.error).length;
+  const failed = responses.length - succeeded;
+  // Includes the judge's provider when it isn't one of the answering ones.
+  const providers = getRunProviders(config);
+  const isMissingCredentials = providers.some(p => getMissingCredentials(p, apiKeys).length > 0);
+
+  const handleResume = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedKeys = Object.fromEntries(Object.entries(apiKeys).map(([key, value]) => [key, value?.trim()]));
+    onResume({ ...config, apiKeys: trimmedKeys }, checkpoint);
+  };
+
+  return (
+    <form onSubmit={handleResume} className="bg-yellow-900/20 border border-yellow-700 p-6 rounded-xl shadow-lg space-y-4">
+      <div>
+        <h3 className="text-xl font-semibold text-yellow-300">Unfinished analysis for "{config.clientName}"</h3>
+        <p className="text-sm text-gray-300 mt-1">
+          Started {new Date(checkpoint.createdAt).toLocaleString()}. {succeeded} of {expected} responses completed
+          {failed > 0 && `, ${failed} failed`}. Resuming runs only the remaining and failed ones.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {providers.flatMap(p => getProviderAdapter(p).credentialFields).map(field => (
+          <label key={field.key} className="block">
+            <span className="text-sm font-medium text-gray-200">{field.label}</span>
+            <input
+              type={field.secret ? 'password' : 'text'}
+              value={apiKeys[field.key] || ''}
+              onChange={(e) => setApiKeys(prev => ({ ...prev, [field.key]: e.target.value }))}
+              className="mt-1 w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 focus:outline-none transition"
+              placeholder={field.placeholder}
+              required={!field.optional}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex space-x-3">
+        <button type="submit" disabled={isMissingCredentials} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+          Resume Analysis
+        </button>
+        <button type="button" onClick={onDiscard} className="bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold py-2 px-4 rounded-lg transition-colors">
+          Discard
+        </button>
+      </div>
+    </form>
+  );
+};
\ No newline at end of file
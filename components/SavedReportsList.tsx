@@ -1,26 +1,27 @@
-import React, { useState } from 'react';
+import React from 'react';
 import type { SavedReport } from '../types';
 
 interface SavedReportsListProps {
   reports: SavedReport[];
-  onView: (htmlContent: string) => void;
+  onView: (report: SavedReport) => void;
   onDelete: (id: string) => void;
   onShare: (id: string) => void;
+  onViewTrends: (projectKey: string) => void;
   sharingReportId: string | null;
 }
 
-export const SavedReportsList: React.FC<SavedReportsListProps> = ({ reports, onView, onDelete, onShare, sharingReportId }) => {
-  const [copiedLink, setCopiedLink] = useState<string | null>(null);
-
+export const SavedReportsList: React.FC<SavedReportsListProps> = ({ reports, onView, onDelete, onShare, onViewTrends, sharingReportId }) => {
   if (reports.length === 0) {
     return null;
   }
   
-  const handleCopyLink = (link: string) => {
-    navigator.clipboard.writeText(link);
-    setCopiedLink(link);
-    setTimeout(() => setCopiedLink(null), 2000);
-  };
+  // Trends need at least two runs of the same project with structured data.
+  const runsPerProject = new Map<string, number>();
+  reports.forEach(report => {
+    if (report.projectKey && report.data) {
+      runsPerProject.set(report.projectKey, (runsPerProject.get(report.projectKey) || 0) + 1);
+    }
+  });
 
   return (
     <div className="max-w-3xl mx-auto bg-gray-800 p-8 rounded-xl shadow-2xl border border-gray-700">
@@ -38,12 +39,21 @@ export const SavedReportsList: React.FC<SavedReportsListProps> = ({ reports, onV
             </div>
             <div className="flex items-center space-x-2">
               <button 
-                onClick={() => onView(report.htmlContent)}
+                onClick={() => onView(report)}
                 className="bg-gray-700 hover:bg-gray-600 text-green-400 font-bold py-2 px-3 rounded-md transition-colors"
                 title="View Report"
               >
                 View
               </button>
+              {report.projectKey && (runsPerProject.get(report.projectKey) || 0) > 1 && (
+                <button 
+                  onClick={() => onViewTrends(report.projectKey!)}
+                  className="bg-gray-700 hover:bg-gray-600 text-green-400 font-bold py-2 px-3 rounded-md transition-colors"
+                  title={`Compare ${runsPerProject.get(report.projectKey)} runs of this analysis over time`}
+                >
+                  Trends
+                </button>
+              )}
               <button 
                 onClick={() => onShare(report.id)}
                 disabled={sharingReportId === report.id}
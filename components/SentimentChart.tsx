@@ -1,27 +1,18 @@
 import React from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import type { SentimentData, Provider } from '../types';
+import type { SentimentData, AnalysisTarget } from '../types';
+import { getProviderAdapter } from '../services/providers';
 
 interface SentimentChartProps {
   data: SentimentData[];
-  providers: Provider[];
+  targets: AnalysisTarget[];
 }
 
-const providerColors: Record<Provider, { positive: string, neutral: string, negative: string }> = {
-    gemini: { positive: '#48bb78', neutral: '#a0aec0', negative: '#f56565' },
-    openai: { positive: '#34d399', neutral: '#9ca3af', negative: '#f87171' },
-    perplexity: { positive: '#2dd4bf', neutral: '#6b7280', negative: '#fb7185' },
-    copilot: { positive: '#60a5fa', neutral: '#a1a1aa', negative: '#f472b6' },
-};
+// Models of the same provider share its colors; later models are drawn lighter to tell them apart.
+const getModelOpacity = (target: AnalysisTarget, targets: AnalysisTarget[]) =>
+    1 - Math.min(targets.filter(t => t.provider === target.provider).indexOf(target), 3) * 0.2;
 
-const providerNames: Record<Provider, string> = {
-    gemini: 'Gemini',
-    openai: 'OpenAI',
-    perplexity: 'Perplexity',
-    copilot: 'Copilot'
-};
-
-export const SentimentChart: React.FC<SentimentChartProps> = ({ data, providers }) => {
+export const SentimentChart: React.FC<SentimentChartProps> = ({ data, targets }) => {
   return (
     <div style={{ width: '100%', height: 400 }}>
         <ResponsiveContainer>
@@ -37,13 +28,18 @@ export const SentimentChart: React.FC<SentimentChartProps> = ({ data, providers
                   labelStyle={{ color: '#e2e8f0' }}
                 />
                 <Legend wrapperStyle={{ color: '#e2e8f0' }} />
-                {providers.map(provider => (
-                    <React.Fragment key={provider}>
-                        <Bar dataKey={`Positive-${provider}`} fill={providerColors[provider].positive} name={`Positive (${providerNames[provider]})`} stackId={provider} />
-                        <Bar dataKey={`Neutral-${provider}`} fill={providerColors[provider].neutral} name={`Neutral (${providerNames[provider]})`} stackId={provider} />
-                        <Bar dataKey={`Negative-${provider}`} fill={providerColors[provider].negative} name={`Negative (${providerNames[provider]})`} stackId={provider} />
-                    </React.Fragment>
-                ))}
+                {targets.map(target => {
+                    const { shortName, chartColors } = getProviderAdapter(target.provider);
+                    const label = `${shortName} ${target.model}`;
+                    const opacity = getModelOpacity(target, targets);
+                    return (
+                        <React.Fragment key={target.key}>
+                            <Bar dataKey={`Positive-${target.key}`} fill={chartColors.positive} fillOpacity={opacity} name={`Positive (${label})`} stackId={target.key} />
+                            <Bar dataKey={`Neutral-${target.key}`} fill={chartColors.neutral} fillOpacity={opacity} name={`Neutral (${label})`} stackId={target.key} />
+                            <Bar dataKey={`Negative-${target.key}`} fill={chartColors.negative} fillOpacity={opacity} name={`Negative (${label})`} stackId={target.key} />
+                        </React.Fragment>
+                    );
+                })}
             </BarChart>
         </ResponsiveContainer>
     </div>
@@ -1,72 +1,80 @@
-import React from 'react';
-import type { Provider, AppConfig } from '../types';
-
-interface SentimentScoresData {
-    brandName: string;
-    sentiments: Record<Provider, { P: number, N: number, Nl: number }>;
-}
+import React, { useState } from 'react';
+import type { AppConfig, BrandSentimentData } from '../types';
+import { getAnalysisTargets, getTargetDisplayName, getTargetShortName } from '../services/providers';
+import { formatSentimentScore, getSamplesPerPrompt } from '../utils/aggregation';
 
 interface SentimentScoresTableProps {
-  data: SentimentScoresData[];
+  data: BrandSentimentData[];
   clientName: string;
   config: AppConfig;
 }
 
-const providerBaseNames: Record<Provider, string> = {
-    gemini: 'Gemini',
-    openai: 'OpenAI',
-    perplexity: 'Perplexity',
-    copilot: 'Copilot'
-};
+const scoreColor = (score: number) => score > 0.2 ? 'text-green-400' : score < -0.2 ? 'text-red-400' : 'text-gray-300';
 
-const getProviderShortName = (provider: Provider, config: AppConfig) => {
-    const model = config.models[provider];
-    const baseName = providerBaseNames[provider];
-    if (model && model.length > 10) {
-        return `${baseName} (${model.substring(0,10)}...)`;
-    }
-    return model ? `${baseName} (${model})` : baseName;
-}
+export const SentimentScoresTable: React.FC<SentimentScoresTableProps> = ({ data, clientName, config }) => {
+  const targets = getAnalysisTargets(config);
+  const samples = getSamplesPerPrompt(config);
+  const [selected, setSelected] = useState<{ brandName: string; targetKey: string } | null>(null);
+  const selectedBrand = selected && data.find(d => d.brandName === selected.brandName);
+  const selectedEvidence = selectedBrand?.evidence[selected!.targetKey] || [];
+  const selectedTarget = selected && targets.find(t => t.key === selected.targetKey);
 
+  const toggle = (brandName: string, targetKey: string) => {
+    setSelected(prev => prev?.brandName === brandName && prev.targetKey === targetKey ? null : { brandName, targetKey });
+  };
 
-export const SentimentScoresTable: React.FC<SentimentScoresTableProps> = ({ data, clientName, config }) => {
   return (
     <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-lg h-full">
-      <h3 className="text-xl font-semibold mb-4 text-gray-100">Comparative Sentiment Scores</h3>
+      <h3 className="text-xl font-semibold text-gray-100">Comparative Sentiment Scores</h3>
+      <p className="text-xs text-gray-500 mb-4">Response counts per sentiment, and the average score from -1 to +1. Click a score to see the quotes behind it.</p>
       <div className="overflow-x-auto max-h-[300px] pr-2">
         <table className="w-full text-left">
           <thead className="sticky top-0 bg-gray-800 z-10">
             <tr>
               <th rowSpan={2} className="text-sm font-semibold text-gray-400 pb-2 border-b-2 border-gray-600 align-bottom">Brand</th>
-              {config.providers.map(p => (
-                  <th key={p} colSpan={3} className="text-sm font-semibold text-gray-400 pb-2 border-b-2 border-gray-600 text-center" title={config.models[p]}>{getProviderShortName(p, config)}</th>
+              {targets.map(t => (
+                  <th key={t.key} colSpan={4} className="text-sm font-semibold text-gray-400 pb-2 border-b-2 border-gray-600 text-center" title={getTargetDisplayName(t)}>{getTargetShortName(t)}</th>
               ))}
             </tr>
             <tr>
-              {config.providers.map(p => (
-                <React.Fragment key={p}>
+              {targets.map(t => (
+                <React.Fragment key={t.key}>
                   <th className="text-xs font-medium text-green-400/80 pb-2 border-b border-gray-600 text-center" title="Positive">P</th>
                   <th className="text-xs font-medium text-gray-300/80 pb-2 border-b border-gray-600 text-center" title="Neutral">N</th>
                   <th className="text-xs font-medium text-red-400/80 pb-2 border-b border-gray-600 text-center" title="Negative">N</th>
+                  <th className="text-xs font-medium text-gray-400 pb-2 border-b border-gray-600 text-center" title="Average sentiment score">Avg</th>
                 </React.Fragment>
               ))}
             </tr>
           </thead>
           <tbody>
-            {data.map(({ brandName, sentiments }) => {
+            {data.map(({ brandName, sentiments, averageScores }) => {
                 const isClient = brandName.toLowerCase() === clientName.toLowerCase();
                 return (
                   <tr key={brandName} className={`border-b border-gray-700 last:border-b-0 ${isClient ? 'bg-green-900/30' : ''}`}>
                     <td className={`py-3 font-medium ${isClient ? 'text-green-400' : 'text-gray-200'}`}>
                       {brandName}
                     </td>
-                    {config.providers.map(p => {
-                        const score = sentiments[p] || { P: 0, Nl: 0, N: 0 };
+                    {targets.map(t => {
+                        const score = sentiments[t.key] || { P: 0, Nl: 0, N: 0 };
+                        const average = averageScores[t.key];
+                        const isSelected = selected?.brandName === brandName && selected.targetKey === t.key;
                         return (
-                            <React.Fragment key={p}>
+                            <React.Fragment key={t.key}>
                                 <td className="py-3 text-center text-green-400 font-mono">{score.P}</td>
                                 <td className="py-3 text-center text-gray-300 font-mono">{score.Nl}</td>
                                 <td className="py-3 text-center text-red-400 font-mono">{score.N}</td>
+                                <td className="py-3 text-center font-mono">
+                                  {average === undefined ? <span className="text-gray-500">–</span> : (
+                                    <button
+                                      onClick={() => toggle(brandName, t.key)}
+                                      className={`px-1.5 rounded underline decoration-dotted underline-offset-4 hover:bg-gray-700 ${scoreColor(average)} ${isSelected ? 'bg-gray-700' : ''}`}
+                                      aria-expanded={isSelected}
+                                    >
+                                      {formatSentimentScore(average)}
+                                    </button>
+                                  )}
+                                </td>
                             </React.Fragment>
                         )
                     })}
@@ -76,6 +84,28 @@ export const SentimentScoresTable: React.FC<SentimentScoresTableProps> = ({ data
           </tbody>
         </table>
       </div>
+      {selected && selectedTarget && (
+        <div className="mt-4 border-t border-gray-700 pt-4">
+          <div className="flex justify-between items-baseline mb-3">
+            <h4 className="font-semibold text-gray-200">{selected.brandName} in {getTargetDisplayName(selectedTarget)}</h4>
+            <button onClick={() => setSelected(null)} className="text-sm text-gray-400 hover:text-gray-200">Close</button>
+          </div>
+          <ul className="space-y-3 max-h-[300px] overflow-y-auto pr-2">
+            {selectedEvidence.map((e, i) => (
+              <li key={i} className="bg-gray-900/50 p-3 rounded-md text-sm">
+                <p className="text-gray-400">
+                  <span className={`font-mono font-semibold mr-2 ${scoreColor(e.score)}`}>{formatSentimentScore(e.score)}</span>
+                  "{e.prompt}"{samples > 1 && ` (sample ${e.sample + 1})`}
+                </p>
+                {e.rationale && <p className="text-gray-300 mt-1">{e.rationale}</p>}
+                {e.quotes.map((quote, j) => (
+                  <blockquote key={j} className="mt-2 border-l-2 border-gray-600 pl-3 italic text-gray-400">{quote}</blockquote>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,5 +1,15 @@
-import React, { useState, useEffect } from 'react';
-import type { AppConfig, Provider, ApiKeys } from '../types';
+import React, { useState } from 'react';
+import type { AnalysisTarget, AppConfig, Provider, ApiKeys, BrandVariants, FunnelStage, ModelPrice, PromptDetails, PromptGeneratorSettings, RateLimit, SetupUsage, ReportConfig } from '../types';
+import { getAnalysisTargets, getJudgeTarget, getMissingCredentials, getProviderAdapter, getTargetDisplayName, providerIds, providerRegistry } from '../services/providers';
+import { getRunProviders } from '../services/geminiService';
+import { DEFAULT_MODEL_PRICES, estimateRunCost, formatCost, getModelPrice } from '../utils/costs';
+import { FUNNEL_STAGES, getPromptDetails } from '../utils/aggregation';
+import { TemplateBar } from './TemplateBar';
+import { PromptLibrary } from './PromptLibrary';
+import { PromptGenerator } from './PromptGenerator';
+import { PromptTranslator, type TranslatedPrompt } from './PromptTranslator';
+import { ConfigFileControls } from './ConfigFileControls';
+import type { ConfigFileContents } from '../utils/configFile';
 
 interface SetupFormProps {
   onStartAnalysis: (config: AppConfig) => void;
@@ -13,35 +23,60 @@ const FormField: React.FC<{ label: string; description: string; children: React.
     </div>
 );
 
-const providerDetails: Record<Provider, { name: string, requiresKey: boolean, requiresEndpoint?: boolean }> = {
-    gemini: { name: 'Google Gemini', requiresKey: true },
-    openai: { name: 'OpenAI', requiresKey: true },
-    perplexity: { name: 'Perplexity', requiresKey: true },
-    copilot: { name: 'Copilot / Azure', requiresKey: true, requiresEndpoint: true },
-};
+type VariantInput = Record<'aliases' | 'domains' | 'products', string>;
 
-const modelOptions: Partial<Record<Provider, string[]>> = {
-    gemini: ['gemini-2.5-flash'],
-    openai: ['gpt-4o-mini', 'gpt-4o', 'gpt-4-turbo'],
-    perplexity: ['llama-3-sonar-large-32k-online', 'llama-3-sonar-small-32k-online', 'sonar', 'sonar pro', 'sonar reasoning', 'sonar reasoning pro', 'sonar deep research', 'r1-1776'],
-};
+const variantFields: { key: keyof VariantInput; label: string; placeholder: string }[] = [
+    { key: 'aliases', label: 'Aliases', placeholder: 'Aliases, e.g. Hubspot CRM' },
+    { key: 'domains', label: 'Domains', placeholder: 'Domains, e.g. hubspot.com' },
+    { key: 'products', label: 'Products', placeholder: 'Products, e.g. Sales Hub' },
+];
+
+const MAX_SAMPLES = 10;
+
+const splitList = (value: string | undefined) => (value || '').split(',').map(v => v.trim()).filter(Boolean);
+
+const splitPrompts = (value: string) => value.split('\n').map(p => p.trim()).filter(Boolean);
 
-const defaultModels: Partial<Record<Provider, string>> = {
-    gemini: 'gemini-2.5-flash',
-    openai: 'gpt-4o-mini',
-    perplexity: 'llama-3-sonar-large-32k-online',
-    copilot: 'gpt-4o'
+// The provider+models whose prices the run needs: its targets, plus the judge when it isn't one of them.
+const getPricedTargets = (config: ReportConfig): AnalysisTarget[] => {
+  const targets = getAnalysisTargets(config);
+  const judge = getJudgeTarget(config);
+  return judge && !targets.some(t => t.key === judge.key) ? [...targets, judge] : targets;
 };
 
+// Details for the prompt list `next`, carried over by text from `prev`, so they survive edits to
+// the list. Repeats of a prompt, asked in different markets, take their details in order.
+const carryPromptDetails = (prev: string[], details: PromptDetails[], next: string[]): PromptDetails[] => {
+  const unused = prev.map((prompt, i) => ({ prompt, details: details[i] ?? {} }));
+  return next.map(prompt => {
+    const index = unused.findIndex(u => u.prompt === prompt);
+    return index === -1 ? {} : unused.splice(index, 1)[0].details;
+  });
+};
 
 export const SetupForm: React.FC<SetupFormProps> = ({ onStartAnalysis }) => {
   const [clientName, setClientName] = useState<string>('');
   const [competitors, setCompetitors] = useState<string>('');
   const [prompts, setPrompts] = useState<string>('');
   const [additionalQuestions, setAdditionalQuestions] = useState<string>('');
+  // In the order of the prompt list; see carryPromptDetails.
+  const [promptDetails, setPromptDetails] = useState<PromptDetails[]>([]);
+  const [samplesPerPrompt, setSamplesPerPrompt] = useState<number>(1);
+  const [cloudCheckpoints, setCloudCheckpoints] = useState<boolean>(false);
+  // Prices edited in the form, keyed by AnalysisTarget.key. Other models use the defaults.
+  const [priceOverrides, setPriceOverrides] = useState<Record<string, ModelPrice>>({});
+  // Comma-separated variant inputs, keyed by lower-cased brand name.
+  const [variantInputs, setVariantInputs] = useState<Record<string, VariantInput>>({});
   const [selectedProviders, setSelectedProviders] = useState<Provider[]>(['gemini']);
   const [apiKeys, setApiKeys] = useState<ApiKeys>({});
-  const [models, setModels] = useState<Partial<Record<Provider, string>>>({ gemini: defaultModels.gemini });
+  const [models, setModels] = useState<Partial<Record<Provider, string[]>>>({ gemini: [providerRegistry.gemini.defaultModel] });
+  // Raw comma-separated input for providers whose models are entered as free text.
+  const [modelInputs, setModelInputs] = useState<Partial<Record<Provider, string>>>({});
+  const [rateLimits, setRateLimits] = useState<Partial<Record<Provider, RateLimit>>>({});
+  // Absent until one is chosen, in which case each model grades its own answers.
+  const [judge, setJudge] = useState<{ provider: Provider; model: string } | null>(null);
+  const [promptGenerator, setPromptGenerator] = useState<PromptGeneratorSettings | undefined>(undefined);
+  const [setupUsage, setSetupUsage] = useState<SetupUsage[]>([]);
 
 
   const handleProviderToggle = (provider: Provider) => {
@@ -51,8 +86,12 @@ export const SetupForm: React.FC<SetupFormProps> = ({ onStartAnalysis }) => {
     
     setSelectedProviders(newSelection);
 
-    if (newSelection.includes(provider) && !models[provider]) {
-        setModels(prev => ({ ...prev, [provider]: defaultModels[provider] }));
+    const adapter = getProviderAdapter(provider);
+    if (newSelection.includes(provider) && adapter.models.length > 0 && !models[provider]?.length) {
+        setModels(prev => ({ ...prev, [provider]: [adapter.defaultModel] }));
+    }
+    if (newSelection.includes(provider) && adapter.models.length === 0 && modelInputs[provider] === undefined) {
+        setModelInputs(prev => ({ ...prev, [provider]: adapter.defaultModel }));
     }
   };
 
@@ -60,33 +99,194 @@ export const SetupForm: React.FC<SetupFormProps> = ({ onStartAnalysis }) => {
     setApiKeys(prev => ({ ...prev, [key]: value }));
   };
 
-  const handleModelChange = (provider: Provider, value: string) => {
-    setModels(prev => ({ ...prev, [provider]: value }));
+  const handleModelToggle = (provider: Provider, model: string) => {
+    setModels(prev => {
+      const current = prev[provider] || [];
+      return { ...prev, [provider]: current.includes(model) ? current.filter(m => m !== model) : [...current, model] };
+    });
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    onStartAnalysis({
+  const handleJudgeProviderChange = (provider: Provider | '') => {
+    setJudge(provider ? { provider, model: getProviderAdapter(provider).defaultModel } : null);
+  };
+
+  const getRateLimit = (provider: Provider): RateLimit => rateLimits[provider] ?? getProviderAdapter(provider).rateLimit;
+
+  const handleRateLimitChange = (provider: Provider, key: keyof RateLimit, value: string) => {
+    const parsed = Math.max(1, Math.floor(Number(value)) || 1);
+    setRateLimits(prev => ({ ...prev, [provider]: { ...getRateLimit(provider), [key]: parsed } }));
+  };
+
+  const getSelectedModels = (provider: Provider): string[] => {
+    if (getProviderAdapter(provider).models.length > 0) {
+      return models[provider] || [];
+    }
+    return Array.from(new Set((modelInputs[provider] || '').split(',').map(m => m.trim()).filter(Boolean)));
+  };
+
+  const trackedBrands = [clientName.trim(), ...competitors.split('\n').map(c => c.trim())].filter(Boolean);
+
+  const handleVariantChange = (brandName: string, key: keyof VariantInput, value: string) => {
+    const brandKey = brandName.toLowerCase();
+    setVariantInputs(prev => ({
+      ...prev,
+      [brandKey]: { aliases: '', domains: '', products: '', ...prev[brandKey], [key]: value },
+    }));
+  };
+
+  const getBrandVariants = (): BrandVariants[] => trackedBrands
+    .map(brandName => {
+      const input = variantInputs[brandName.toLowerCase()];
+      return { brandName, aliases: splitList(input?.aliases), domains: splitList(input?.domains), products: splitList(input?.products) };
+    })
+    .filter(v => v.aliases.length + v.domains.length + v.products.length > 0);
+
+  const buildConfig = (): AppConfig => {
+    const selectedModels = Object.fromEntries(selectedProviders.map(p => [p, getSelectedModels(p)]));
+    const judgeModel = judge?.model.trim();
+    const promptList = splitPrompts(prompts);
+    const draft = {
       providers: selectedProviders,
-      apiKeys: {
-        gemini: apiKeys.gemini?.trim(),
-        openai: apiKeys.openai?.trim(),
-        perplexity: apiKeys.perplexity?.trim(),
-        copilotKey: apiKeys.copilotKey?.trim(),
-        copilotEndpoint: apiKeys.copilotEndpoint?.trim(),
-      },
-      models: models,
+      apiKeys: Object.fromEntries(Object.entries(apiKeys).map(([key, value]) => [key, value?.trim()])),
+      models: selectedModels,
       clientName: clientName.trim(),
       competitors: competitors.split('\n').map(c => c.trim()).filter(Boolean),
-      prompts: prompts.split('\n').map(p => p.trim()).filter(Boolean),
+      brandVariants: getBrandVariants(),
+      prompts: promptList,
+      promptDetails: promptList.map((_, i) => promptDetails[i] ?? {}),
       additionalQuestions: additionalQuestions.split('\n').map(q => q.trim()).filter(Boolean),
+      samplesPerPrompt,
+      rateLimits: Object.fromEntries(getRunProviders({ providers: selectedProviders, judge: judge ?? undefined }).map(p => [p, getRateLimit(p)])),
+      cloudCheckpoints,
+      judge: judge && judgeModel ? { provider: judge.provider, model: judgeModel } : undefined,
+      promptGenerator,
+      setupUsage,
+    };
+    // The prices in effect are stored with the run, so saved reports keep their costs.
+    const modelPrices = Object.fromEntries(getPricedTargets(draft).flatMap(target => {
+      const price = getModelPrice(target, { ...draft, modelPrices: priceOverrides });
+      return price ? [[target.key, price]] : [];
+    }));
+    return { ...draft, modelPrices };
+  };
+
+  // Fills the brands, prompts and questions from a config file. Run settings are left as they are.
+  const applyConfigFile = (contents: ConfigFileContents) => {
+    setClientName(contents.clientName);
+    setCompetitors(contents.competitors.join('\n'));
+    setPrompts(contents.prompts.join('\n'));
+    setPromptDetails(contents.prompts.map((_, i) => getPromptDetails(i, contents)));
+    setAdditionalQuestions(contents.additionalQuestions.join('\n'));
+    setVariantInputs(Object.fromEntries((contents.brandVariants || []).map(v => [
+      v.brandName.toLowerCase(),
+      { aliases: v.aliases.join(', '), domains: v.domains.join(', '), products: v.products.join(', ') },
+    ])));
+  };
+
+  // Fills the form from a saved configuration. API keys already entered are kept.
+  const applyConfig = (config: ReportConfig) => {
+    applyConfigFile(config);
+    setSamplesPerPrompt(config.samplesPerPrompt || 1);
+    setCloudCheckpoints(!!config.cloudCheckpoints);
+    setPriceOverrides(config.modelPrices || {});
+    setSelectedProviders(config.providers);
+    setModels(Object.fromEntries(config.providers.filter(p => getProviderAdapter(p).models.length > 0).map(p => [p, config.models[p] || []])));
+    setModelInputs(Object.fromEntries(config.providers.filter(p => getProviderAdapter(p).models.length === 0).map(p => [p, (config.models[p] || []).join(', ')])));
+    setRateLimits(config.rateLimits || {});
+    setJudge(config.judge ?? null);
+    setPromptGenerator(config.promptGenerator);
+    // What it cost to set up the saved run isn't a cost of this one.
+    setSetupUsage([]);
+  };
+
+  const handleSetupUsage = (usage: SetupUsage) => setSetupUsage(prev => [...prev, usage]);
+
+  const handlePromptsChange = (value: string) => {
+    setPromptDetails(carryPromptDetails(splitPrompts(prompts), promptDetails, splitPrompts(value)));
+    setPrompts(value);
+  };
+
+  const handleAddPrompts = (added: string[]) => {
+    const current = splitPrompts(prompts);
+    const currentLower = new Set(current.map(p => p.toLowerCase()));
+    setPrompts([...current, ...added.filter(p => !currentLower.has(p.toLowerCase()))].join('\n'));
+  };
+
+  // The settings of the last accepted batch are saved with the run.
+  const handleAcceptGenerated = (generated: string[], settings: PromptGeneratorSettings) => {
+    handleAddPrompts(generated);
+    setPromptGenerator(settings);
+  };
+
+  // Source prompts are tagged with the source locale, and each translation gets the category and
+  // funnel stage of the prompt it came from. Translations already among the prompts for their
+  // locale are skipped; the same text may still be asked in another market.
+  const handleTranslate = (sourceLocale: string, translated: TranslatedPrompt[]) => {
+    const current = splitPrompts(prompts);
+    const details = current.map((_, i) => promptDetails[i] ?? {});
+    translated.forEach(t => { details[t.source] = { ...details[t.source], locale: sourceLocale }; });
+    const seen = new Set(current.map((p, i) => `${p.toLowerCase()}:${details[i].locale ?? ''}`));
+    const added = translated.filter(t => {
+      const key = `${t.text.toLowerCase()}:${t.locale}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
     });
+    setPrompts([...current, ...added.map(t => t.text)].join('\n'));
+    setPromptDetails([...details, ...added.map(t => ({ ...details[t.source], locale: t.locale }))]);
   };
+
+  // Empty fields are dropped, so a prompt with nothing set has empty details.
+  const handlePromptDetailChange = (index: number, key: keyof PromptDetails, value: string) => {
+    setPromptDetails(prev => {
+      const next = splitPrompts(prompts).map((_, i) => prev[i] ?? {});
+      const details: PromptDetails = { ...next[index], [key]: value.trim() || undefined };
+      next[index] = Object.fromEntries(Object.entries(details).filter(([, v]) => v));
+      return next;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onStartAnalysis(buildConfig());
+  };
+
+  const handlePriceChange = (target: AnalysisTarget, key: keyof ModelPrice, value: string) => {
+    const current = priceOverrides[target.key] ?? DEFAULT_MODEL_PRICES[target.model] ?? { input: 0, output: 0 };
+    setPriceOverrides(prev => ({ ...prev, [target.key]: { ...current, [key]: Math.max(0, Number(value) || 0) } }));
+  };
+
+  const draftConfig = buildConfig();
+  const draftTargets = getAnalysisTargets(draftConfig);
+  const pricedTargets = getPricedTargets(draftConfig);
+  const estimate = estimateRunCost(draftConfig);
+  const promptCategories = Array.from(new Set(promptDetails.map(d => d.category).filter((c): c is string => !!c)));
   
   const isSubmitDisabled = !clientName || !competitors || !prompts || selectedProviders.length === 0 || 
-    selectedProviders.some(p => providerDetails[p].requiresKey && !apiKeys[p === 'copilot' ? 'copilotKey' : p]) ||
-    selectedProviders.some(p => !models[p]) ||
-    (selectedProviders.includes('copilot') && !apiKeys.copilotEndpoint);
+    getRunProviders(draftConfig).some(p => getMissingCredentials(p, apiKeys).length > 0) ||
+    selectedProviders.some(p => getSelectedModels(p).length === 0) ||
+    (!!judge && !draftConfig.judge);
+
+  const renderCredentialFields = (provider: Provider) => providerRegistry[provider].credentialFields.map(field => (
+    <FormField key={field.key} label={field.label} description={field.description}>
+        <input type={field.secret ? 'password' : 'text'} value={apiKeys[field.key] || ''} onChange={(e) => handleApiKeyChange(field.key, e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder={field.placeholder} required={!field.optional} />
+    </FormField>
+  ));
+
+  const renderRequestLimits = (provider: Provider) => (
+    <FormField label="Request Limits" description={`Parallel requests and requests per minute sent to ${providerRegistry[provider].name}. Rate-limited requests are retried with backoff.`}>
+      <div className="flex flex-wrap gap-4">
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <input type="number" min={1} value={getRateLimit(provider).concurrency} onChange={(e) => handleRateLimitChange(provider, 'concurrency', e.target.value)} className="w-20 bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-green-500 focus:outline-none transition" />
+          <span>in parallel</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <input type="number" min={1} value={getRateLimit(provider).requestsPerMinute} onChange={(e) => handleRateLimitChange(provider, 'requestsPerMinute', e.target.value)} className="w-20 bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-green-500 focus:outline-none transition" />
+          <span>per minute</span>
+        </label>
+      </div>
+    </FormField>
+  );
 
   return (
     <div className="max-w-3xl mx-auto bg-gray-800 p-8 rounded-xl shadow-2xl border border-gray-700">
@@ -94,68 +294,72 @@ export const SetupForm: React.FC<SetupFormProps> = ({ onStartAnalysis }) => {
       <p className="text-gray-400 mb-8">Enter the details below to start tracking LLM visibility for your brand.</p>
       
       <form onSubmit={handleSubmit} className="space-y-6">
+        <TemplateBar getConfig={buildConfig} onLoad={applyConfig} />
+        <ConfigFileControls getConfig={buildConfig} onImport={applyConfigFile} />
         
         <div className="bg-gray-900/50 p-6 rounded-lg border border-gray-700">
             <h3 className="text-xl font-semibold mb-4 text-gray-100">LLM Providers & Models</h3>
              <FormField label="Select Providers" description="Choose which AI models to use for the analysis. You can select multiple.">
                 <div className="grid grid-cols-2 gap-3">
-                  {(Object.keys(providerDetails) as Provider[]).map(p => (
+                  {providerIds.map(p => (
                     <label key={p} className={`flex items-center space-x-3 p-3 rounded-lg border-2 transition-colors cursor-pointer ${selectedProviders.includes(p) ? 'border-green-500 bg-green-900/30' : 'border-gray-600 bg-gray-800 hover:bg-gray-700'}`}>
                       <input type="checkbox" checked={selectedProviders.includes(p)} onChange={() => handleProviderToggle(p)} className="h-5 w-5 rounded bg-gray-700 border-gray-500 text-green-600 focus:ring-green-500" />
-                      <span className="font-medium text-gray-200">{providerDetails[p].name}</span>
+                      <span className="font-medium text-gray-200">{providerRegistry[p].name}</span>
                     </label>
                   ))}
                 </div>
             </FormField>
             <div className="space-y-4 mt-4">
-              {selectedProviders.includes('gemini') && (
-                  <>
-                    <FormField label="Google Gemini API Key" description="Required for Gemini models.">
-                        <input type="password" value={apiKeys.gemini || ''} onChange={(e) => handleApiKeyChange('gemini', e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="Enter your Gemini API key" required />
-                    </FormField>
-                    <FormField label="Gemini Model" description="Select the model for analysis.">
-                        <select value={models.gemini || ''} onChange={(e) => handleModelChange('gemini', e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition">
-                            {modelOptions.gemini?.map(m => <option key={m} value={m}>{m}</option>)}
-                        </select>
-                    </FormField>
-                  </>
-              )}
-              {selectedProviders.includes('openai') && (
-                  <>
-                    <FormField label="OpenAI API Key" description="Required for OpenAI models.">
-                        <input type="password" value={apiKeys.openai || ''} onChange={(e) => handleApiKeyChange('openai', e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="Enter your OpenAI API key" required />
-                    </FormField>
-                    <FormField label="OpenAI Model" description="Select the model for analysis.">
-                        <select value={models.openai || ''} onChange={(e) => handleModelChange('openai', e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition">
-                            {modelOptions.openai?.map(m => <option key={m} value={m}>{m}</option>)}
-                        </select>
-                    </FormField>
-                  </>
-              )}
-              {selectedProviders.includes('perplexity') && (
-                  <>
-                    <FormField label="Perplexity API Key" description="Required for Perplexity models.">
-                        <input type="password" value={apiKeys.perplexity || ''} onChange={(e) => handleApiKeyChange('perplexity', e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="Enter your Perplexity API key" required />
-                    </FormField>
-                     <FormField label="Perplexity Model" description="Select the model for analysis.">
-                        <select value={models.perplexity || ''} onChange={(e) => handleModelChange('perplexity', e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition">
-                            {modelOptions.perplexity?.map(m => <option key={m} value={m}>{m}</option>)}
-                        </select>
-                    </FormField>
-                  </>
-              )}
-              {selectedProviders.includes('copilot') && (
-                  <>
-                    <FormField label="Azure/Copilot Endpoint URL" description="The base URL for your Azure OpenAI resource.">
-                        <input type="text" value={apiKeys.copilotEndpoint || ''} onChange={(e) => handleApiKeyChange('copilotEndpoint', e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="e.g., https://your-resource.openai.azure.com" required />
-                    </FormField>
-                    <FormField label="Azure/Copilot API Key" description="The API key for your Azure OpenAI resource.">
-                        <input type="password" value={apiKeys.copilotKey || ''} onChange={(e) => handleApiKeyChange('copilotKey', e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="Enter your Azure API key" required />
-                    </FormField>
-                    <FormField label="Azure/Copilot Deployment Name" description="The 'model' name of your deployment.">
-                        <input type="text" value={models.copilot || ''} onChange={(e) => handleModelChange('copilot', e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="e.g., gpt-4o-deployment" required />
-                    </FormField>
-                  </>
+              {providerIds.filter(p => selectedProviders.includes(p)).map(p => {
+                  const adapter = providerRegistry[p];
+                  return (
+                    <React.Fragment key={p}>
+                      {renderCredentialFields(p)}
+                      <FormField label={adapter.modelField.label} description={adapter.modelField.description}>
+                        {adapter.models.length > 0 ? (
+                          <div className="flex flex-wrap gap-2">
+                              {adapter.models.map(m => (
+                                <label key={m} className={`flex items-center space-x-2 px-3 py-1.5 rounded-lg border text-sm cursor-pointer transition-colors ${models[p]?.includes(m) ? 'border-green-500 bg-green-900/30 text-gray-100' : 'border-gray-600 bg-gray-900 text-gray-300 hover:bg-gray-700'}`}>
+                                  <input type="checkbox" checked={!!models[p]?.includes(m)} onChange={() => handleModelToggle(p, m)} className="h-4 w-4 rounded bg-gray-700 border-gray-500 text-green-600 focus:ring-green-500" />
+                                  <span>{m}</span>
+                                </label>
+                              ))}
+                          </div>
+                        ) : (
+                          <input type="text" value={modelInputs[p] || ''} onChange={(e) => setModelInputs(prev => ({ ...prev, [p]: e.target.value }))} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder={adapter.modelField.placeholder} required />
+                        )}
+                      </FormField>
+                      {renderRequestLimits(p)}
+                    </React.Fragment>
+                  );
+              })}
+            </div>
+            <div className="space-y-4 mt-4">
+              <FormField label="Judge Model" description="Optional. Extracts brands and sentiment from every answer and answers the additional questions, so all models are graded against the same rubric. Without one, each model grades its own answers.">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  <select aria-label="Judge provider" value={judge?.provider ?? ''} onChange={(e) => handleJudgeProviderChange(e.target.value as Provider | '')} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition">
+                    <option value="">None</option>
+                    {providerIds.map(p => (
+                      <option key={p} value={p}>{providerRegistry[p].name}</option>
+                    ))}
+                  </select>
+                  {judge && (providerRegistry[judge.provider].models.length > 0 ? (
+                    <select aria-label="Judge model" value={judge.model} onChange={(e) => setJudge({ ...judge, model: e.target.value })} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition">
+                      {providerRegistry[judge.provider].models.map(m => (
+                        <option key={m} value={m}>{m}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input type="text" aria-label="Judge model" value={judge.model} onChange={(e) => setJudge({ ...judge, model: e.target.value })} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder={providerRegistry[judge.provider].modelField.placeholder} required />
+                  ))}
+                </div>
+              </FormField>
+              {/* A judge from a provider that isn't answering still needs its credentials and limits. */}
+              {judge && !selectedProviders.includes(judge.provider) && (
+                <>
+                  {renderCredentialFields(judge.provider)}
+                  {renderRequestLimits(judge.provider)}
+                </>
               )}
             </div>
         </div>
@@ -168,14 +372,133 @@ export const SetupForm: React.FC<SetupFormProps> = ({ onStartAnalysis }) => {
           <textarea value={competitors} onChange={(e) => setCompetitors(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 h-24 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="e.g., Canto&#x0a;Widen Collective&#x0a;Brandfolder" required />
         </FormField>
 
+        {trackedBrands.length > 0 && (
+          <FormField label="Brand Variants" description="Optional. Other names, domains and products each brand goes by, separated by commas. They are counted as the brand itself.">
+            <div className="space-y-3">
+              {trackedBrands.map((brandName, index) => (
+                <div key={`${brandName}-${index}`} className="bg-gray-900/50 p-3 rounded-lg border border-gray-700">
+                  <p className={`text-sm font-semibold mb-2 ${index === 0 ? 'text-green-400' : 'text-gray-200'}`}>{brandName}</p>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                    {variantFields.map(field => (
+                      <input
+                        key={field.key}
+                        type="text"
+                        aria-label={`${brandName} ${field.label}`}
+                        value={variantInputs[brandName.toLowerCase()]?.[field.key] || ''}
+                        onChange={(e) => handleVariantChange(brandName, field.key, e.target.value)}
+                        className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-green-500 focus:outline-none transition"
+                        placeholder={field.placeholder}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </FormField>
+        )}
+
         <FormField label="Prompts" description="List each search prompt on a new line.">
-          <textarea value={prompts} onChange={(e) => setPrompts(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 h-32 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="e.g., What is the best DAM system?&#x0a;Compare DAM systems for enterprise companies" required />
+          <textarea value={prompts} onChange={(e) => handlePromptsChange(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 h-32 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="e.g., What is the best DAM system?&#x0a;Compare DAM systems for enterprise companies" required />
+          <PromptLibrary prompts={draftConfig.prompts} onAddPrompts={handleAddPrompts} />
+          <PromptGenerator config={draftConfig} targets={draftTargets} onAccept={handleAcceptGenerated} onUsage={handleSetupUsage} />
+          <PromptTranslator config={draftConfig} targets={draftTargets} onTranslate={handleTranslate} onUsage={handleSetupUsage} />
         </FormField>
+
+        {draftConfig.prompts.length > 0 && (
+          <FormField label="Prompt Categories" description="Optional. Group prompts by topic, funnel stage and locale to see visibility broken down by category and compared across locales in the results. A prompt with a locale is analyzed in its language.">
+            <div className="space-y-2">
+              <datalist id="prompt-categories">
+                {promptCategories.map(category => <option key={category} value={category} />)}
+              </datalist>
+              {draftConfig.prompts.map((prompt, index) => {
+                const details = promptDetails[index] || {};
+                return (
+                  <div key={`${prompt}-${index}`} className="grid grid-cols-1 md:grid-cols-[1fr_10rem_9rem_7rem] gap-2 items-center bg-gray-900/50 p-2 rounded-lg border border-gray-700">
+                    <p className="text-sm text-gray-300 truncate" title={prompt}>{prompt}</p>
+                    <input
+                      type="text"
+                      list="prompt-categories"
+                      aria-label={`Category of "${prompt}"`}
+                      value={details.category || ''}
+                      onChange={(e) => handlePromptDetailChange(index, 'category', e.target.value)}
+                      className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-green-500 focus:outline-none transition"
+                      placeholder="Category"
+                    />
+                    <select
+                      aria-label={`Funnel stage of "${prompt}"`}
+                      value={details.funnelStage || ''}
+                      onChange={(e) => handlePromptDetailChange(index, 'funnelStage', e.target.value as FunnelStage)}
+                      className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-sm capitalize focus:ring-2 focus:ring-green-500 focus:outline-none transition"
+                    >
+                      <option value="">No stage</option>
+                      {FUNNEL_STAGES.map(stage => <option key={stage} value={stage}>{stage}</option>)}
+                    </select>
+                    <input
+                      type="text"
+                      aria-label={`Locale of "${prompt}"`}
+                      value={details.locale || ''}
+                      onChange={(e) => handlePromptDetailChange(index, 'locale', e.target.value)}
+                      className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-green-500 focus:outline-none transition"
+                      placeholder="e.g., de-DE"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          </FormField>
+        )}
         
         <FormField label="Additional Analysis Questions" description="Optional. Ask specific questions about each LLM response. List each question on a new line.">
           <textarea value={additionalQuestions} onChange={(e) => setAdditionalQuestions(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 h-24 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="e.g., How are the mentioned prices in comparison with competition?&#x0a;What are the USPs in comparison with the mentioned competitors?" />
         </FormField>
 
+        <FormField label="Samples per Prompt" description="How many times each prompt is sent to each model. Answers vary between calls, so more samples give more reliable numbers at a proportionally higher cost.">
+          <input type="number" min={1} max={MAX_SAMPLES} value={samplesPerPrompt} onChange={(e) => setSamplesPerPrompt(Math.min(MAX_SAMPLES, Math.max(1, Math.floor(Number(e.target.value)) || 1)))} className="w-32 bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" />
+        </FormField>
+
+        {pricedTargets.length > 0 && (
+          <FormField label="Model Prices" description="USD per million input and output tokens, used for the cost estimate and for the actual cost of the run. Defaults are list prices and may be out of date.">
+            <div className="space-y-2">
+              {pricedTargets.map(target => {
+                const price = getModelPrice(target, draftConfig);
+                return (
+                  <div key={target.key} className="flex flex-wrap items-center gap-3 text-sm text-gray-300">
+                    <span className="w-64 font-medium text-gray-200">{getTargetDisplayName(target)}</span>
+                    <label className="flex items-center space-x-2">
+                      <span>In $</span>
+                      <input type="number" min={0} step="0.01" value={price?.input ?? ''} onChange={(e) => handlePriceChange(target, 'input', e.target.value)} className="w-24 bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="–" />
+                    </label>
+                    <label className="flex items-center space-x-2">
+                      <span>Out $</span>
+                      <input type="number" min={0} step="0.01" value={price?.output ?? ''} onChange={(e) => handlePriceChange(target, 'output', e.target.value)} className="w-24 bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="–" />
+                    </label>
+                  </div>
+                );
+              })}
+            </div>
+          </FormField>
+        )}
+
+        <label className="flex items-start space-x-3 cursor-pointer">
+          <input type="checkbox" checked={cloudCheckpoints} onChange={(e) => setCloudCheckpoints(e.target.checked)} className="mt-1 h-5 w-5 rounded bg-gray-700 border-gray-500 text-green-600 focus:ring-green-500" />
+          <span>
+            <span className="block text-lg font-medium text-gray-200">Back Up Progress to the Cloud</span>
+            <span className="block text-sm text-gray-400">Progress is always saved in this browser so an interrupted run can be resumed. Also backing it up to the cloud keeps a run resumable when it grows too large for this browser's storage. API keys are never saved.</span>
+          </span>
+        </label>
+
+        {draftTargets.length > 0 && draftConfig.prompts.length > 0 && (
+          <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700 text-sm text-gray-300" aria-live="polite">
+            <p>
+              <span className="font-semibold text-gray-100">Estimated cost: {formatCost(estimate.cost)}</span>
+              {' '}for about {estimate.calls} API calls, including an allowance for repairing invalid brand analyses, and about {Math.round(estimate.usage.inputTokens / 1000)}k input and {Math.round(estimate.usage.outputTokens / 1000)}k output tokens.
+            </p>
+            {estimate.unpricedTargets.length > 0 && (
+              <p className="text-yellow-400 mt-1">Not included, no price set: {estimate.unpricedTargets.map(getTargetDisplayName).join(', ')}.</p>
+            )}
+          </div>
+        )}
+
         <div className="pt-4">
             <button type="submit" className="w-full bg-green-600 hover:bg-green-700 text-white font-bold text-lg py-3 px-4 rounded-lg transition-all duration-300 transform hover:scale-105 disabled:bg-gray-600 disabled:cursor-not-allowed disabled:scale-100" disabled={isSubmitDisabled}>
                 Start Analysis
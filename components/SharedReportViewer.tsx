@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { getReportByShareToken } from '../services/reportService';
-import type { SavedReport } from '../services/reportService';
+import type { SavedReport } from '../types';
 
 interface SharedReportViewerProps {
   shareToken: string;
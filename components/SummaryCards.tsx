@@ -1,17 +1,14 @@
 import React from 'react';
-import type { AnalysisResult, Provider } from '../types';
-
-const providerNames: Record<Provider, string> = {
-    gemini: 'Google Gemini',
-    openai: 'OpenAI',
-    perplexity: 'Perplexity',
-    copilot: 'Copilot / Azure'
-};
+import type { AnalysisResult, AnalysisTarget, AppConfig, BrandLeaderboardData, BrandVisibilityData } from '../types';
+import { getClientMentionsByTarget, getSamplesPerPrompt } from '../utils/aggregation';
+import { getTargetDisplayName } from '../services/providers';
 
 interface SummaryCardsProps {
     results: AnalysisResult[];
-    clientName: string;
-    providers: Provider[];
+    config: AppConfig;
+    targets: AnalysisTarget[];
+    visibility: BrandVisibilityData[];
+    leaderboard: BrandLeaderboardData[];
 }
 
 const StatCard: React.FC<{ title: string; value: string | number; description: string; icon: React.ReactNode }> = ({ title, value, description, icon }) => (
@@ -37,6 +34,19 @@ const LeaderIcon = () => (
     </svg>
 );
 
+const RankIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+    </svg>
+);
+
+const ShareIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 3.055A9.001 9.001 0 1020.945 13H11V3.055z" />
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.488 9H15V3.512A9.025 9.025 0 0120.488 9z" />
+    </svg>
+);
+
 const SearchIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
@@ -44,53 +54,63 @@ const SearchIcon = () => (
 );
 
 
-export const SummaryCards: React.FC<SummaryCardsProps> = ({ results, clientName, providers }) => {
+export const SummaryCards: React.FC<SummaryCardsProps> = ({ results, config, targets, visibility, leaderboard }) => {
+    const { clientName } = config;
+    const samples = getSamplesPerPrompt(config);
     
-    const clientMentionsByProvider: Record<Provider, number> = { gemini: 0, openai: 0, perplexity: 0, copilot: 0 };
+    const clientMentionsByTarget = getClientMentionsByTarget(results, config);
     let totalClientMentions = 0;
 
-    results.forEach(result => {
-        result.providerResponses.forEach(pResponse => {
-            pResponse.brandAnalyses.forEach(analysis => {
-                if (analysis.brandName.toLowerCase() === clientName.toLowerCase()) {
-                    clientMentionsByProvider[pResponse.provider] += analysis.mentions;
-                }
-            });
-        });
-    });
-
-    totalClientMentions = Object.values(clientMentionsByProvider).reduce((sum, count) => sum + count, 0);
+    totalClientMentions = Object.values(clientMentionsByTarget).reduce((sum, count) => sum + count, 0);
     
-    let topProvider: Provider | null = null;
+    let topTarget: AnalysisTarget | null = null;
     let maxMentions = -1;
 
-    if (providers.length > 0) {
-        for (const provider of providers) {
-            if (clientMentionsByProvider[provider] > maxMentions) {
-                maxMentions = clientMentionsByProvider[provider];
-                topProvider = provider;
+    if (targets.length > 0) {
+        for (const target of targets) {
+            const mentions = clientMentionsByTarget[target.key] || 0;
+            if (mentions > maxMentions) {
+                maxMentions = mentions;
+                topTarget = target;
             }
         }
     }
 
+    const clientVisibility = visibility.find(v => v.brandName.toLowerCase() === clientName.toLowerCase());
+    const clientRank = clientVisibility ? visibility.indexOf(clientVisibility) + 1 : null;
+    const clientStanding = leaderboard.find(b => b.brandName.toLowerCase() === clientName.toLowerCase());
+    const shareOfVoiceRank = clientStanding ? leaderboard.indexOf(clientStanding) + 1 : null;
+
     return (
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6">
             <StatCard 
                 title={`${clientName} Mentions`}
                 value={totalClientMentions}
-                description="Total mentions across all selected LLMs"
+                description={samples > 1 ? `Total mentions across all selected LLMs and ${samples} samples per prompt` : 'Total mentions across all selected LLMs'}
                 icon={<MentionIcon />}
             />
             <StatCard 
                 title="Prompts Analyzed"
                 value={results.length}
-                description={`Across ${providers.length} LLM provider(s)`}
+                description={`Across ${targets.length} LLM model(s)${samples > 1 ? `, ${samples} samples each` : ''}`}
                 icon={<SearchIcon />}
+            />
+            <StatCard 
+                title="Share of Voice"
+                value={`${Math.round((clientStanding?.overall.shareOfVoice ?? 0) * 100)}%`}
+                description={shareOfVoiceRank ? `Of all tracked-brand mentions, ranked #${shareOfVoiceRank} of ${leaderboard.length} brands` : 'Of all tracked-brand mentions'}
+                icon={<ShareIcon />}
+            />
+            <StatCard 
+                title="Visibility Score"
+                value={Math.round(clientVisibility?.overallScore ?? 0)}
+                description={clientRank ? `Out of 100, ranked #${clientRank} of ${visibility.length} brands` : 'Out of 100'}
+                icon={<RankIcon />}
             />
              <StatCard 
                 title="Top Visibility On"
-                value={topProvider ? providerNames[topProvider] : 'N/A'}
-                description={topProvider ? `With ${maxMentions} mentions of ${clientName}` : 'No mentions found'}
+                value={topTarget ? getTargetDisplayName(topTarget) : 'N/A'}
+                description={topTarget ? `With ${maxMentions} mentions of ${clientName}` : 'No mentions found'}
                 icon={<LeaderIcon />}
             />
         </div>
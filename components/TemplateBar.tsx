@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import type { AnalysisTemplate, AppConfig, ReportConfig } from '../types';
+import { deleteTemplate, getUserTemplates, saveTemplate } from '../services/templateService';
+
+interface TemplateBarProps {
+  // The form's current configuration, read when saving.
+  getConfig: () => AppConfig;
+  onLoad: (config: ReportConfig) => void;
+}
+
+export const TemplateBar: React.FC<TemplateBarProps> = ({ getConfig, onLoad }) => {
+  const [templates, setTemplates] = useState<AnalysisTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [name, setName] = useState<string>('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getUserTemplates().then(setTemplates).catch(e => console.error('Failed to load templates:', e));
+  }, []);
+
+  const selected = templates.find(t => t.id === selectedId);
+
+  const handleLoad = () => {
+    if (!selected) return;
+    onLoad(selected.config);
+    setName(selected.name);
+  };
+
+  const handleSave = async () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) return;
+    const existing = templates.find(t => t.name.toLowerCase() === trimmedName.toLowerCase());
+    if (existing && !confirm(`Replace the template "${existing.name}"?`)) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await saveTemplate(trimmedName, getConfig(), existing);
+      setTemplates(prev => [...prev.filter(t => t.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedId(saved.id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save template.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(`Delete the template "${selected.name}"? This action cannot be undone.`)) return;
+    setError(null);
+    try {
+      await deleteTemplate(selected.id);
+      setTemplates(prev => prev.filter(t => t.id !== selected.id));
+      setSelectedId('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to delete template.');
+    }
+  };
+
+  return (
+    <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-300 w-24">Template</span>
+        <select value={selectedId} onChange={(e) => setSelectedId(e.target.value)} className="flex-grow bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-green-500 focus:outline-none" disabled={templates.length === 0}>
+          <option value="">{templates.length === 0 ? 'No saved templates' : 'Choose a template...'}</option>
+          {templates.map(t => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+        <button type="button" onClick={handleLoad} disabled={!selected} className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold py-1.5 px-3 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">Load</button>
+        <button type="button" onClick={handleDelete} disabled={!selected} className="bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-semibold py-1.5 px-3 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed">Delete</button>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-300 w-24">Save as</span>
+        <input type="text" value={name} onChange={(e) => setName(e.target.value)} className="flex-grow bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-green-500 focus:outline-none" placeholder="Template name, e.g. Bynder DAM monthly" />
+        <button type="button" onClick={handleSave} disabled={!name.trim() || isSaving} className="bg-green-600 hover:bg-green-700 text-white text-sm font-bold py-1.5 px-3 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+          {isSaving ? 'Saving...' : 'Save Template'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">Templates store everything on this form except API keys.</p>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,106 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { AnalysisTarget, ProviderMetrics, SavedReport } from '../types';
+import { computeTargetMetrics } from '../utils/aggregation';
+import { getAnalysisTargets, getProviderAdapter, getTargetShortName } from '../services/providers';
+
+interface TrendsViewProps {
+  // Saved runs of a single project. Runs without structured data are ignored.
+  runs: SavedReport[];
+  onClose: () => void;
+}
+
+type TrendPoint = { name: string; [targetKey: string]: number | string | null };
+
+const TrendChart: React.FC<{ title: string; description: string; data: TrendPoint[]; targets: AnalysisTarget[]; domain?: [number, number]; unit?: string }> = ({ title, description, data, targets, domain, unit }) => (
+    <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-lg">
+        <h3 className="text-xl font-semibold text-gray-100">{title}</h3>
+        <p className="text-sm text-gray-400 mb-4">{description}</p>
+        <div style={{ width: '100%', height: 300 }}>
+            <ResponsiveContainer>
+                <LineChart data={data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#4a5568" />
+                    <XAxis dataKey="name" stroke="#a0aec0" />
+                    <YAxis stroke="#a0aec0" domain={domain} unit={unit} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#2d3748', border: '1px solid #4a5568' }}
+                      labelStyle={{ color: '#e2e8f0' }}
+                    />
+                    <Legend wrapperStyle={{ color: '#e2e8f0' }} />
+                    {targets.map(target => {
+                        // Further models of the same provider share its color but are dashed.
+                        const isFirstModel = targets.find(t => t.provider === target.provider) === target;
+                        return (
+                            <Line key={target.key} type="monotone" dataKey={target.key} name={getTargetShortName(target)} stroke={getProviderAdapter(target.provider).chartColors.series} strokeDasharray={isFirstModel ? undefined : '5 5'} strokeWidth={2} connectNulls />
+                        );
+                    })}
+                </LineChart>
+            </ResponsiveContainer>
+        </div>
+    </div>
+);
+
+export const TrendsView: React.FC<TrendsViewProps> = ({ runs, onClose }) => {
+  const runsWithData = runs
+    .filter(run => run.data)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  const targets = Array.from(
+    new Map(runsWithData.flatMap(run => getAnalysisTargets(run.data!.config)).map(t => [t.key, t])).values()
+  );
+  const runMetrics = runsWithData.map(run => ({
+    name: new Date(run.createdAt).toLocaleDateString(),
+    metrics: computeTargetMetrics(run.data!.results, run.data!.config),
+  }));
+
+  // Models missing from a run are left as gaps rather than plotted as zero.
+  const toSeries = (pick: (m: ProviderMetrics) => number | null): TrendPoint[] =>
+    runMetrics.map(({ name, metrics }) => {
+      const point: TrendPoint = { name };
+      targets.forEach(({ key }) => {
+        const m = metrics[key];
+        point[key] = m ? pick(m) : null;
+      });
+      return point;
+    });
+
+  const latest = runsWithData[runsWithData.length - 1]?.data?.config;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex justify-between items-start">
+        <div>
+            <h2 className="text-3xl font-bold text-green-400">Visibility trends for "{latest?.clientName}"</h2>
+            <p className="text-gray-400 mt-1">
+              {runsWithData.length} runs of {latest?.prompts.length} prompts against {latest?.competitors.length} competitors.
+            </p>
+        </div>
+        <button onClick={onClose} className="bg-gray-700 hover:bg-gray-600 text-green-400 font-bold py-2 px-4 rounded-lg transition-colors flex-shrink-0">
+            &larr; Back
+        </button>
+      </div>
+
+      <TrendChart
+        title="Client Mentions"
+        description="Total mentions of the client per provider in each run, per sample when prompts were sampled more than once."
+        data={toSeries(m => Math.round(m.clientMentions * 10) / 10)}
+        targets={targets}
+      />
+      <TrendChart
+        title="Share of Voice"
+        description="Client mentions as a share of all mentions of tracked brands."
+        data={toSeries(m => Math.round(m.shareOfVoice * 1000) / 10)}
+        targets={targets}
+        domain={[0, 100]}
+        unit="%"
+      />
+      <TrendChart
+        title="Net Sentiment"
+        description="Positive minus negative client sentiment, as a share of responses that mention the client."
+        data={toSeries(m => m.netSentiment === null ? null : Math.round(m.netSentiment * 100) / 100)}
+        targets={targets}
+        domain={[-1, 1]}
+      />
+    </div>
+  );
+};
\ No newline at end of file
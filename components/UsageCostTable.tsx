@@ -0,0 +1,65 @@
+import React from 'react';
+import type { AnalysisResult, AppConfig, TokenUsage } from '../types';
+import { getAnalysisTargets, getTargetDisplayName } from '../services/providers';
+import { SETUP_CALL_LABELS, aggregateCosts, formatCost } from '../utils/costs';
+
+interface UsageCostTableProps {
+  results: AnalysisResult[];
+  config: AppConfig;
+}
+
+const formatTokens = (usage: TokenUsage) =>
+  `${usage.inputTokens.toLocaleString()} / ${usage.outputTokens.toLocaleString()}`;
+
+export const UsageCostTable: React.FC<UsageCostTableProps> = ({ results, config }) => {
+  const targets = getAnalysisTargets(config);
+  const { byTarget, setup, totalCost, hasUnpriced } = aggregateCosts(results, config);
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-lg">
+      <div className="flex justify-between items-baseline">
+        <h3 className="text-xl font-semibold text-gray-100">Token Usage &amp; Cost</h3>
+        <p className="text-lg font-bold text-green-400">{formatCost(totalCost)}{hasUnpriced && '+'}</p>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">Input / output tokens as reported by each API, priced with the model prices set for this run.</p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600">Model</th>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Answers</th>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Brand Analysis</th>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Questions</th>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {targets.map(target => {
+              const entry = byTarget[target.key];
+              return (
+                <tr key={target.key} className="border-b border-gray-700 last:border-b-0">
+                  <td className="py-3 font-medium text-gray-200">{getTargetDisplayName(target)}</td>
+                  <td className="py-3 text-right text-gray-300 font-mono text-sm">{formatTokens(entry.usage.answer)}</td>
+                  <td className="py-3 text-right text-gray-300 font-mono text-sm">{formatTokens(entry.usage.analysis)}</td>
+                  <td className="py-3 text-right text-gray-300 font-mono text-sm">{formatTokens(entry.usage.questions)}</td>
+                  <td className="py-3 text-right font-bold font-mono text-gray-100">
+                    {entry.cost === null ? <span className="text-xs font-normal text-yellow-400" title="No price was set for this model.">No price</span> : formatCost(entry.cost)}
+                  </td>
+                </tr>
+              );
+            })}
+            {setup.map(entry => (
+              <tr key={`${entry.callType}-${entry.target.key}`} className="border-b border-gray-700 last:border-b-0">
+                <td className="py-3 font-medium text-gray-200">{SETUP_CALL_LABELS[entry.callType]}: {getTargetDisplayName(entry.target)}</td>
+                <td colSpan={3} className="py-3 text-right text-gray-300 font-mono text-sm">{formatTokens(entry.usage)}</td>
+                <td className="py-3 text-right font-bold font-mono text-gray-100">
+                  {entry.cost === null ? <span className="text-xs font-normal text-yellow-400" title="No price was set for this model.">No price</span> : formatCost(entry.cost)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
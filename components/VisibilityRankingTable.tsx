@@ -0,0 +1,63 @@
+import React from 'react';
+import type { AppConfig, BrandVisibilityData } from '../types';
+import { getAnalysisTargets, getTargetDisplayName, getTargetShortName } from '../services/providers';
+
+interface VisibilityRankingTableProps {
+  data: BrandVisibilityData[];
+  clientName: string;
+  knownBrands: Set<string>;
+  config: AppConfig;
+}
+
+const formatRank = (rank: number | null) => rank === null ? '–' : rank.toFixed(1);
+
+export const VisibilityRankingTable: React.FC<VisibilityRankingTableProps> = ({ data, clientName, knownBrands, config }) => {
+  const targets = getAnalysisTargets(config);
+  return (
+    <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-lg">
+      <h3 className="text-xl font-semibold text-gray-100">Visibility Ranking</h3>
+      <p className="text-xs text-gray-500 mb-4">Weighted score out of 100: being mentioned, how early or how high in a list, and being the explicit recommendation. Averaged over all prompts.</p>
+      <div className="overflow-x-auto max-h-[400px] pr-2">
+        <table className="w-full text-left">
+          <thead className="sticky top-0 bg-gray-800 z-10">
+            <tr>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600">#</th>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600">Brand</th>
+              {targets.map(t => (
+                <th key={t.key} className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right" title={getTargetDisplayName(t)}>{getTargetShortName(t)}</th>
+              ))}
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Overall</th>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right" title="Average order of first mention among brands">Avg. First Mention</th>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right" title="Average position when the brand appears in a list">Avg. List Rank</th>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right" title="Responses that explicitly recommend the brand">Recommended</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.map((brand, index) => {
+                const lowerCaseBrandName = brand.brandName.toLowerCase();
+                const isClient = lowerCaseBrandName === clientName.toLowerCase();
+                const isKnown = knownBrands.has(lowerCaseBrandName);
+
+                return (
+                  <tr key={brand.brandName} className={`border-b border-gray-700 last:border-b-0 ${isClient ? 'bg-green-900/30' : ''}`}>
+                    <td className="py-3 text-gray-400 font-mono">{index + 1}</td>
+                    <td className={`py-3 font-medium ${isClient ? 'text-green-400' : 'text-gray-200'}`}>
+                      {brand.brandName}
+                      {!isKnown && <span className="ml-2 text-xs font-semibold text-yellow-500 tracking-wider" title="This brand was discovered during analysis and was not in your initial list.">(Discovered)</span>}
+                    </td>
+                    {targets.map(t => (
+                       <td key={t.key} className="py-3 text-right text-gray-300 font-mono">{Math.round(brand.scores[t.key] || 0)}</td>
+                    ))}
+                    <td className="py-3 text-right font-bold font-mono text-gray-100">{Math.round(brand.overallScore)}</td>
+                    <td className="py-3 text-right text-gray-300 font-mono">{formatRank(brand.avgFirstMentionRank)}</td>
+                    <td className="py-3 text-right text-gray-300 font-mono">{formatRank(brand.avgListRank)}</td>
+                    <td className="py-3 text-right text-gray-300 font-mono">{brand.recommendedCount}</td>
+                  </tr>
+                )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
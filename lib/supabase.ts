@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { AnalysisResult, ProviderResponse, ReportConfig } from '../types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -21,6 +22,10 @@ export type Database = {
           created_at: string;
           updated_at: string;
           user_id: string | null;
+          schema_version: number | null;
+          config: ReportConfig | null;
+          results: AnalysisResult[] | null;
+          project_key: string | null;
         };
         Insert: {
           id?: string;
@@ -30,6 +35,10 @@ export type Database = {
           created_at?: string;
           updated_at?: string;
           user_id?: string | null;
+          schema_version?: number | null;
+          config?: ReportConfig | null;
+          results?: AnalysisResult[] | null;
+          project_key?: string | null;
         };
         Update: {
           id?: string;
@@ -39,6 +48,88 @@ export type Database = {
           created_at?: string;
           updated_at?: string;
           user_id?: string | null;
+          schema_version?: number | null;
+          config?: ReportConfig | null;
+          results?: AnalysisResult[] | null;
+          project_key?: string | null;
+        };
+      };
+      run_checkpoints: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          client_name: string;
+          config: ReportConfig;
+          responses: Record<string, ProviderResponse>;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          user_id?: string | null;
+          client_name: string;
+          config: ReportConfig;
+          responses?: Record<string, ProviderResponse>;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string | null;
+          client_name?: string;
+          config?: ReportConfig;
+          responses?: Record<string, ProviderResponse>;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      analysis_templates: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          name: string;
+          config: ReportConfig;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string | null;
+          name: string;
+          config: ReportConfig;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string | null;
+          name?: string;
+          config?: ReportConfig;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      library_prompts: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          text: string;
+          tags: string[];
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string | null;
+          text: string;
+          tags?: string[];
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string | null;
+          text?: string;
+          tags?: string[];
+          created_at?: string;
         };
       };
     };
@@ -0,0 +1,130 @@
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/supabase';
+import type { AppConfig, ProviderResponse, RunCheckpoint } from '../types';
+import { stripApiKeys } from './reportService';
+
+type CheckpointRow = Database['public']['Tables']['run_checkpoints']['Row'];
+type CheckpointInsert = Database['public']['Tables']['run_checkpoints']['Insert'];
+
+const STORAGE_KEY = 'llm-visibility:run-checkpoint';
+// The id of the run backed up to Supabase. It is small enough to save even when the checkpoint
+// itself no longer fits in local storage, and it is the only way to find the cloud copy.
+const CLOUD_ID_KEY = 'llm-visibility:cloud-checkpoint-id';
+// Anonymous rows are only visible to requests that name them in this header; see the
+// run_checkpoints policies.
+const CHECKPOINT_ID_HEADER = 'x-checkpoint-id';
+// Cloud writes carry every response so far, so they are batched rather than sent per response.
+const CLOUD_SAVE_DELAY_MS = 5000;
+
+let cloudSaveTimer: ReturnType<typeof setTimeout> | null = null;
+let pendingCloudCheckpoint: RunCheckpoint | null = null;
+// The cloud write in flight, if any. Clearing waits for it so a late upsert can't recreate the row.
+let cloudWrite: Promise<void> = Promise.resolve();
+
+function mapCheckpointRow(row: CheckpointRow): RunCheckpoint {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    config: row.config,
+    responses: row.responses,
+  };
+}
+
+export function createCheckpoint(config: AppConfig): RunCheckpoint {
+  const now = new Date().toISOString();
+  return { id: crypto.randomUUID(), createdAt: now, updatedAt: now, config: stripApiKeys(config), responses: {} };
+}
+
+async function writeCloudCheckpoint(checkpoint: RunCheckpoint): Promise<void> {
+  try {
+    localStorage.setItem(CLOUD_ID_KEY, checkpoint.id);
+  } catch (e) {
+    console.warn('Could not save the cloud run checkpoint id locally:', e);
+  }
+  const { data: { user } } = await supabase.auth.getUser();
+  const row: CheckpointInsert = {
+    id: checkpoint.id,
+    user_id: user?.id || null,
+    client_name: checkpoint.config.clientName,
+    config: checkpoint.config,
+    responses: checkpoint.responses,
+    updated_at: checkpoint.updatedAt,
+  };
+  const { error } = await supabase.from('run_checkpoints').upsert(row).setHeader(CHECKPOINT_ID_HEADER, checkpoint.id);
+  if (error) console.error('Error saving run checkpoint:', error);
+}
+
+// Records a completed response. The local copy is written immediately; a failure to save
+// is logged rather than thrown so it never interrupts the run itself.
+export function recordCheckpointResponse(checkpoint: RunCheckpoint, taskId: string, response: ProviderResponse): RunCheckpoint {
+  const updated: RunCheckpoint = {
+    ...checkpoint,
+    updatedAt: new Date().toISOString(),
+    responses: { ...checkpoint.responses, [taskId]: response },
+  };
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+  } catch (e) {
+    console.warn('Could not save run checkpoint locally:', e);
+    // An older copy would otherwise be offered for resuming instead of the newer cloud one.
+    localStorage.removeItem(STORAGE_KEY);
+  }
+
+  if (updated.config.cloudCheckpoints) {
+    pendingCloudCheckpoint = updated;
+    if (!cloudSaveTimer) {
+      cloudSaveTimer = setTimeout(() => {
+        cloudSaveTimer = null;
+        const pending = pendingCloudCheckpoint;
+        pendingCloudCheckpoint = null;
+        // Chained, so writes land in order.
+        if (pending) cloudWrite = cloudWrite.then(() => writeCloudCheckpoint(pending)).catch(e => console.error('Error saving run checkpoint:', e));
+      }, CLOUD_SAVE_DELAY_MS);
+    }
+  }
+
+  return updated;
+}
+
+// The unfinished run to offer for resuming: the local checkpoint, or else the cloud copy of
+// the run this browser backed up, if any.
+export async function loadCheckpoint(): Promise<RunCheckpoint | null> {
+  let cloudId: string | null = null;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return JSON.parse(stored) as RunCheckpoint;
+    cloudId = localStorage.getItem(CLOUD_ID_KEY);
+  } catch (e) {
+    console.warn('Could not read the local run checkpoint:', e);
+  }
+  if (!cloudId) return null;
+
+  const { data, error } = await supabase
+    .from('run_checkpoints')
+    .select('*')
+    .eq('id', cloudId)
+    .setHeader(CHECKPOINT_ID_HEADER, cloudId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching run checkpoint:', error);
+    return null;
+  }
+  return data ? mapCheckpointRow(data) : null;
+}
+
+export async function clearCheckpoint(checkpoint: RunCheckpoint): Promise<void> {
+  localStorage.removeItem(STORAGE_KEY);
+  localStorage.removeItem(CLOUD_ID_KEY);
+  if (cloudSaveTimer) {
+    clearTimeout(cloudSaveTimer);
+    cloudSaveTimer = null;
+    pendingCloudCheckpoint = null;
+  }
+  if (!checkpoint.config.cloudCheckpoints) return;
+  await cloudWrite;
+  const { error } = await supabase.from('run_checkpoints').delete().eq('id', checkpoint.id).setHeader(CHECKPOINT_ID_HEADER, checkpoint.id);
+  if (error) console.error('Error deleting run checkpoint:', error);
+}
@@ -1,282 +1,245 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import type { AppConfig, AnalysisResult, BrandAnalysis, AdditionalQuestionAnswer, Provider, LlmClients, ProviderResponse, Task } from '../types';
-
-const providerBaseNames: Record<Provider, string> = {
-    gemini: 'Google Gemini',
-    openai: 'OpenAI',
-    perplexity: 'Perplexity',
-    copilot: 'Copilot / Azure'
-};
-
-// --- Client Initializer ---
-function initializeClients(config: AppConfig): LlmClients {
-    const { providers, apiKeys } = config;
-    const clients: LlmClients = {
-        gemini: null,
-        openai: undefined,
-        perplexity: undefined,
-        copilot: undefined,
-    };
-    if (providers.includes('gemini')) {
-        const apiKey = apiKeys.gemini;
-        if (!apiKey) throw new Error("Google Gemini API Key is missing.");
-        clients.gemini = new GoogleGenAI({ apiKey });
-    }
-    if (providers.includes('openai') && apiKeys.openai) {
-        clients.openai = apiKeys.openai;
-    }
-    if (providers.includes('perplexity') && apiKeys.perplexity) {
-        clients.perplexity = apiKeys.perplexity;
-    }
-    if (providers.includes('copilot') && apiKeys.copilotKey && apiKeys.copilotEndpoint) {
-        clients.copilot = { key: apiKeys.copilotKey, endpoint: apiKeys.copilotEndpoint };
-    }
-    return clients;
+import type { AppConfig, AnalysisResult, AnalysisTarget, AdditionalQuestionAnswer, JsonCompletion, Provider, ProviderResponse, RateLimit, ResponseUsage, RetryState, SetupCallType, SetupUsage, Task } from '../types';
+import { getAnalysisTargets, getJudgeTarget, getMissingCredentials, getProviderAdapter, getTargetDisplayName, getTargetKey } from './providers';
+import { describeTrackedBrands } from '../utils/brandVariants';
+import { buildCitations } from '../utils/citations';
+import { getPromptDetails, getResultPromptIndex, getSamplesPerPrompt, getTrackedBrands } from '../utils/aggregation';
+import { parseBrandAnalyses } from '../utils/analysisParser';
+import { addUsage } from '../utils/costs';
+import { getLocaleLanguage, getLocaleRegion } from '../utils/locales';
+import { createRequestScheduler, type RequestScheduler } from './requestScheduler';
+import { createRunController, type RunController } from './runController';
+
+// Every provider a run sends requests to: the selected ones, plus the judge's.
+export function getRunProviders(config: Pick<AppConfig, 'providers' | 'judge'>): Provider[] {
+    const judge = getJudgeTarget(config);
+    return judge && !config.providers.includes(judge.provider) ? [...config.providers, judge.provider] : config.providers;
 }
 
-
-// --- Generic Fetch for OpenAI-Compatible APIs ---
-async function genericAIFetch(url: string, apiKey: string, body: object, headers: Record<string, string> = {}) {
-    const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${apiKey}`,
-            ...headers,
-        },
-        body: JSON.stringify(body)
-    });
-    if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: { message: response.statusText } }));
-        throw new Error(`API Error (${response.status}): ${errorData.error?.message || response.statusText}`);
+// --- Credential Check ---
+function assertCredentials(config: AppConfig) {
+    for (const provider of getRunProviders(config)) {
+        const missing = getMissingCredentials(provider, config.apiKeys);
+        if (missing.length > 0) {
+            throw new Error(`${getProviderAdapter(provider).name} is missing: ${missing.join(', ')}.`);
+        }
+        if (config.providers.includes(provider) && !config.models[provider]?.length) {
+            throw new Error(`No model selected for ${getProviderAdapter(provider).name}.`);
+        }
     }
-    return response.json();
 }
 
-async function azureAIFetch(url: string, apiKey: string, body: object) {
-    const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'api-key': apiKey,
-        },
-        body: JSON.stringify(body)
-    });
-    if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: { message: response.statusText } }));
-        throw new Error(`API Error (${response.status}): ${errorData.error?.message || response.statusText}`);
-    }
-    return response.json();
-}
 
+function getRateLimit(provider: Provider, config: AppConfig): RateLimit {
+    return config.rateLimits?.[provider] ?? getProviderAdapter(provider).rateLimit;
+}
 
-// --- Analysis Logic per Provider ---
 
-// GEMINI
-const analysisSchema = { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { brandName: { type: Type.STRING }, mentions: { type: Type.INTEGER }, sentiment: { type: Type.STRING, enum: ['Positive', 'Neutral', 'Negative', 'Not Mentioned'] } }, required: ['brandName', 'mentions', 'sentiment'] } };
-async function runGeminiAnalysisForPrompt(prompt: string, config: AppConfig, client: GoogleGenAI, model: string): Promise<ProviderResponse> {
-    const { clientName, competitors, additionalQuestions } = config;
-    const allBrands = [clientName, ...competitors];
+// --- Analysis Logic ---
+// Sends one request through the given provider's scheduler, with retries.
+type ScheduleRequest = <T>(provider: Provider, request: () => Promise<T>) => Promise<T>;
+
+// Asks the prompt at `pIndex` of the run's prompts. The answer comes from `target`; the brand
+// analysis and additional questions from the run's judge, or from `target` itself when the run has none.
+// Throws if the run is cancelled; any other failure is returned as the response's error.
+async function runAnalysisForPrompt(pIndex: number, config: AppConfig, target: AnalysisTarget, sample: number, schedule: ScheduleRequest, signal: AbortSignal): Promise<ProviderResponse> {
+    const { additionalQuestions, apiKeys } = config;
+    const { provider, model } = target;
+    const adapter = getProviderAdapter(provider);
+    const judge = getJudgeTarget(config) ?? target;
+    const judgeAdapter = getProviderAdapter(judge.provider);
+    // Kept on failed responses too, since the calls that did succeed were still paid for.
+    const usage: ResponseUsage = {};
+    let judging = false;
+    const prompt = config.prompts[pIndex];
+    // Prompts written for a market are answered for that market and analyzed in its language.
+    const { locale } = getPromptDetails(pIndex, config);
+    const language = locale ? getLocaleLanguage(locale) : null;
+    const region = locale ? getLocaleRegion(locale) : null;
     try {
-        // 1. Get raw response
-        const rawResult = await client.models.generateContent({ model, contents: prompt });
-        const response = rawResult.text;
+        // 1. Get raw response. The prompt's language alone doesn't say which market it's asked
+        // from, and prices, availability and vendors differ between them.
+        const question = region ? `${prompt}\n\n(I am based in ${region}.)` : prompt;
+        const answer = await schedule(provider, () => adapter.complete(apiKeys, model, question, signal));
+        const { text: response, citations } = answer;
+        usage.answer = answer.usage;
 
         // 2. Analyze response
-        const analysisPrompt = `Analyze the following text. Identify ALL brand names mentioned. For each, count mentions and determine sentiment ('Positive', 'Neutral', 'Negative'). If a brand from my list (${allBrands.join(', ')}) isn't mentioned, report it as 'Not Mentioned' with 0 mentions. Ensure all brands from my list are in your JSON response. Text: --- ${response} ---`;
-        const analysisResult = await client.models.generateContent({ model, contents: analysisPrompt, config: { responseMimeType: "application/json", responseSchema: analysisSchema } });
-        const brandAnalyses: BrandAnalysis[] = JSON.parse(analysisResult.text);
+        const analysisPrompt = `Analyze the following text. Identify ALL brand names mentioned. For each, count mentions and determine sentiment ('Positive', 'Neutral', 'Negative'). My list of brands is: ${describeTrackedBrands(config)}. A mention of any alternative name, domain or product of a brand from my list counts as a mention of that brand; report it under the brand's name as written first in my list. If a brand from my list isn't mentioned, report it as 'Not Mentioned' with 0 mentions. Ensure all brands from my list are in your response. Also record how prominent each brand is: "firstMentionRank" is the order in which brands first appear in the text (1 for the first brand mentioned), "listRank" is the brand's position in a ranked or bulleted list (null if it is not in a list), and "recommended" is true only if the text explicitly recommends it as the best choice. Use null for brands that aren't mentioned. Finally, score the sentiment towards each brand: "sentimentScore" is a number from -1 (very negative) through 0 (neutral) to 1 (very positive), "rationale" is one short sentence explaining the score, and "quotes" is an array of the sentences from the text that justify it, copied exactly. Use a null score, an empty rationale and no quotes for brands that aren't mentioned.${language ? ` The text is written in ${language}: count brand names even when they are inflected or transliterated, copy the quotes in ${language} as written, and write the rationale in ${language}, keeping the JSON keys and sentiment labels in English.` : ''} Respond with a single JSON object with one key, "brands", which is an array of objects with keys "brandName", "mentions", "sentiment", "firstMentionRank", "listRank", "recommended", "sentimentScore", "rationale" and "quotes". Text: --- ${response} ---`;
+        judging = true;
+        const analysis = await schedule(judge.provider, () => judgeAdapter.completeJson(apiKeys, judge.model, analysisPrompt, signal));
+        usage.analysis = analysis.usage;
+        let parsed = parseBrandAnalyses(analysis.text, getTrackedBrands(config), response);
+        // Asked once more, with what was wrong, before settling for a partial analysis.
+        if (parsed.problems.length > 0) {
+            const repairPrompt = `${analysisPrompt}\n\nYour previous reply could not be used: ${parsed.problems.join(' ')}\nPrevious reply: --- ${analysis.text} ---\nRespond again with only the corrected JSON object.`;
+            const repair = await schedule(judge.provider, () => judgeAdapter.completeJson(apiKeys, judge.model, repairPrompt, signal));
+            usage.analysis = addUsage(usage.analysis, repair.usage);
+            const repaired = parseBrandAnalyses(repair.text, getTrackedBrands(config), response);
+            if (repaired.problems.length <= parsed.problems.length) parsed = repaired;
+        }
+        const { brandAnalyses, problems } = parsed;
+        const analysisWarning = problems.length > 0 ? problems.join(' ') : undefined;
+        if (analysisWarning) console.warn(`${judgeAdapter.name} Analysis Warning:`, analysisWarning);
 
-        // 3. Answer additional questions
+        // 3. Answer additional questions. A failed question is recorded on its answer so the
+        // response and the other answers are kept.
         const additionalAnswers: AdditionalQuestionAnswer[] = await Promise.all(
             additionalQuestions.map(async (question) => {
-                const qPrompt = `Based ONLY on the text provided below, answer the question: "${question}". If the information is not in the text, state that. Text: --- ${response} ---`;
-                const answerResult = await client.models.generateContent({ model, contents: qPrompt });
-                return { question, answer: answerResult.text };
+                const qPrompt = `Based ONLY on the text provided below, answer the question: "${question}". If the information is not in the text, state that.${language ? ` The text is written in ${language}; answer in ${language}.` : ''} Text: --- ${response} ---`;
+                try {
+                    const { text: answer, usage: questionUsage } = await schedule(judge.provider, () => judgeAdapter.complete(apiKeys, judge.model, qPrompt, signal));
+                    usage.questions = addUsage(usage.questions, questionUsage);
+                    return { question, answer };
+                } catch (e) {
+                    if (signal.aborted) throw e;
+                    console.error(`${judgeAdapter.name} Additional Question Error:`, e);
+                    return { question, answer: '', error: e instanceof Error ? e.message : 'An unknown error occurred.' };
+                }
             })
         );
         
-        return { provider: 'gemini', response, brandAnalyses, additionalAnswers };
+        return { provider, model, sample, response, brandAnalyses, additionalAnswers, citations: buildCitations(citations, response), usage, analysisWarning };
     } catch (e) {
-        const error = e instanceof Error ? e.message : 'An unknown Gemini error occurred.';
-        console.error("Gemini Analysis Error:", e);
-        return { provider: 'gemini', response: '', brandAnalyses: [], additionalAnswers: [], error };
+        if (signal.aborted) throw e;
+        const failedAdapter = judging ? judgeAdapter : adapter;
+        const message = e instanceof Error ? e.message : `An unknown ${failedAdapter.name} error occurred.`;
+        // The judge's errors would otherwise read as if the answering model had failed.
+        const error = judging && judge !== target ? `Brand analysis by ${getTargetDisplayName(judge)} failed: ${message}` : message;
+        console.error(`${failedAdapter.name} Analysis Error:`, e);
+        return { provider, model, sample, response: '', brandAnalyses: [], additionalAnswers: [], citations: [], usage, error };
     }
 }
 
-// OPENAI
-async function runOpenAIAnalysisForPrompt(prompt: string, config: AppConfig, apiKey: string, model: string): Promise<ProviderResponse> {
-    const { clientName, competitors, additionalQuestions } = config;
-    const allBrands = [clientName, ...competitors];
-     try {
-        // 1. Get raw response
-        const rawData = await genericAIFetch('https://api.openai.com/v1/chat/completions', apiKey, { model, messages: [{ role: 'user', content: prompt }] });
-        const response = rawData.choices[0].message.content;
 
-        // 2. Analyze response
-        const analysisPrompt = `Analyze the following text. Identify ALL brand names mentioned. For each, count mentions and determine sentiment ('Positive', 'Neutral', 'Negative'). If a brand from my list (${allBrands.join(', ')}) isn't mentioned, report it as 'Not Mentioned' with 0 mentions. Respond with a single JSON object with one key, "brands", which is an array of objects with keys "brandName", "mentions", and "sentiment". Text: --- ${response} ---`;
-        const analysisData = await genericAIFetch('https://api.openai.com/v1/chat/completions', apiKey, { model, messages: [{ role: 'user', content: analysisPrompt }], response_format: { type: "json_object" } });
-        const brandAnalyses: BrandAnalysis[] = JSON.parse(analysisData.choices[0].message.content).brands || [];
+// --- Setup Requests ---
+// Requests made while setting up a run, such as drafting or translating its prompts. Schedulers
+// are kept per provider and rate limit across calls, so repeated requests still respect the limits.
+const setupSchedulers = new Map<string, RequestScheduler>();
 
-        // 3. Answer additional questions
-        const additionalAnswers: AdditionalQuestionAnswer[] = await Promise.all(
-            additionalQuestions.map(async (question) => {
-                const qPrompt = `Based ONLY on the text provided below, answer the question: "${question}". If the information is not in the text, state that. Text: --- ${response} ---`;
-                const answerData = await genericAIFetch('https://api.openai.com/v1/chat/completions', apiKey, { model, messages: [{ role: 'user', content: qPrompt }] });
-                return { question, answer: answerData.choices[0].message.content };
-            })
-        );
-        
-        return { provider: 'openai', response, brandAnalyses, additionalAnswers };
-    } catch (e) {
-        const error = e instanceof Error ? e.message : 'An unknown OpenAI error occurred.';
-        console.error("OpenAI Analysis Error:", e);
-        return { provider: 'openai', response: '', brandAnalyses: [], additionalAnswers: [], error };
+// Sends a JSON request through the provider's scheduler, with retries, and reports the tokens it
+// used through `onUsage` before the reply is parsed, since a reply that turns out unusable is still paid for.
+export async function completeSetupJson(config: AppConfig, target: AnalysisTarget, callType: SetupCallType, prompt: string, onUsage: (usage: SetupUsage) => void, onRetry?: (retry: RetryState) => void, signal?: AbortSignal): Promise<JsonCompletion> {
+    const { provider, model } = target;
+    const adapter = getProviderAdapter(provider);
+    const missing = getMissingCredentials(provider, config.apiKeys);
+    if (missing.length > 0) {
+        throw new Error(`${adapter.name} is missing: ${missing.join(', ')}.`);
     }
+    const limit = getRateLimit(provider, config);
+    const key = `${provider}:${limit.concurrency}:${limit.requestsPerMinute}`;
+    if (!setupSchedulers.has(key)) setupSchedulers.set(key, createRequestScheduler(limit));
+    const completion = await setupSchedulers.get(key)!.run(() => adapter.completeJson(config.apiKeys, model, prompt, signal), onRetry, signal);
+    if (completion.usage) onUsage({ provider, model, callType, usage: completion.usage });
+    return completion;
 }
 
-// PERPLEXITY
-async function runPerplexityAnalysisForPrompt(prompt: string, config: AppConfig, apiKey: string, model: string): Promise<ProviderResponse> {
-    const { clientName, competitors, additionalQuestions } = config;
-    const allBrands = [clientName, ...competitors];
-     try {
-        const rawData = await genericAIFetch('https://api.perplexity.ai/chat/completions', apiKey, { model, messages: [{ role: 'user', content: prompt }] });
-        const pResponse = rawData.choices[0].message.content;
-
-        const analysisPrompt = `Analyze the following text. Identify ALL brand names mentioned. For each, count mentions and determine sentiment ('Positive', 'Neutral', 'Negative'). If a brand from my list (${allBrands.join(', ')}) isn't mentioned, report it as 'Not Mentioned' with 0 mentions. Respond with a valid JSON object inside a \`\`\`json code block. The JSON object should have one key, "brands", which is an array of objects with keys "brandName", "mentions", and "sentiment". Text: --- ${pResponse} ---`;
-        const analysisData = await genericAIFetch('https://api.perplexity.ai/chat/completions', apiKey, { model, messages: [{ role: 'user', content: analysisPrompt }]});
-        
-        const jsonMatch = analysisData.choices[0].message.content.match(/```json\n([\s\S]*?)\n```/);
-        const brandAnalyses: BrandAnalysis[] = jsonMatch ? JSON.parse(jsonMatch[1]).brands : [];
-
-        const additionalAnswers: AdditionalQuestionAnswer[] = await Promise.all(
-            additionalQuestions.map(async (question) => {
-                const qPrompt = `Based ONLY on the text provided below, answer the question: "${question}". If the information is not in the text, state that. Text: --- ${pResponse} ---`;
-                const answerData = await genericAIFetch('https://api.perplexity.ai/chat/completions', apiKey, { model, messages: [{ role: 'user', content: qPrompt }] });
-                return { question, answer: answerData.choices[0].message.content };
-            })
-        );
 
-        return { provider: 'perplexity', response: pResponse, brandAnalyses, additionalAnswers };
-
-    } catch (e) {
-        const error = e instanceof Error ? e.message : 'An unknown Perplexity error occurred.';
-        console.error("Perplexity Analysis Error:", e);
-        return { provider: 'perplexity', response: '', brandAnalyses: [], additionalAnswers: [], error };
-    }
+// --- Main Exported Function ---
+const getTaskId = (pIndex: number, targetKey: string, sample: number) => `prompt-${pIndex}-${targetKey}-${sample}`;
+
+// Keys existing responses by the id of the task that produced them.
+export function indexResponsesByTask(results: AnalysisResult[], config: AppConfig): Record<string, ProviderResponse> {
+    const byTask: Record<string, ProviderResponse> = {};
+    results.forEach(result => {
+        const pIndex = getResultPromptIndex(result, config);
+        result.providerResponses.forEach(pr => {
+            byTask[getTaskId(pIndex, getTargetKey(pr.provider, pr.model), pr.sample ?? 0)] = pr;
+        });
+    });
+    return byTask;
 }
 
-// COPILOT / AZURE
-async function runCopilotAnalysisForPrompt(prompt: string, config: AppConfig, client: { key: string; endpoint: string }, model: string): Promise<ProviderResponse> {
-    const { clientName, competitors, additionalQuestions } = config;
-    const allBrands = [clientName, ...competitors];
-    const API_VERSION = '2024-02-01';
-    const url = `${client.endpoint}/openai/deployments/${model}/chat/completions?api-version=${API_VERSION}`;
-
-    try {
-        // 1. Get raw response
-        const rawData = await azureAIFetch(url, client.key, { messages: [{ role: 'user', content: prompt }] });
-        const response = rawData.choices[0].message.content;
-
-        // 2. Analyze response
-        const analysisPrompt = `Analyze the following text. Identify ALL brand names mentioned. For each, count mentions and determine sentiment ('Positive', 'Neutral', 'Negative'). If a brand from my list (${allBrands.join(', ')}) isn't mentioned, report it as 'Not Mentioned' with 0 mentions. Respond with a single JSON object with one key, "brands", which is an array of objects with keys "brandName", "mentions", and "sentiment". Text: --- ${response} ---`;
-        const analysisData = await azureAIFetch(url, client.key, { messages: [{ role: 'user', content: analysisPrompt }], response_format: { type: "json_object" } });
-        const brandAnalyses: BrandAnalysis[] = JSON.parse(analysisData.choices[0].message.content).brands || [];
-        
-        // 3. Answer additional questions
-        const additionalAnswers: AdditionalQuestionAnswer[] = await Promise.all(
-            additionalQuestions.map(async (question) => {
-                const qPrompt = `Based ONLY on the text provided below, answer the question: "${question}". If the information is not in the text, state that. Text: --- ${response} ---`;
-                const answerData = await azureAIFetch(url, client.key, { messages: [{ role: 'user', content: qPrompt }] });
-                return { question, answer: answerData.choices[0].message.content };
-            })
-        );
-        
-        return { provider: 'copilot', response, brandAnalyses, additionalAnswers };
-    } catch (e) {
-        const error = e instanceof Error ? e.message : 'An unknown Copilot/Azure error occurred.';
-        console.error("Copilot Analysis Error:", e);
-        return { provider: 'copilot', response: '', brandAnalyses: [], additionalAnswers: [], error };
-    }
+export interface RunOptions {
+    controller?: RunController;
+    // Responses from an earlier attempt at the same run, keyed by task id.
+    // Successful ones are reused; failed ones are run again.
+    completed?: Record<string, ProviderResponse>;
+    // Runs only these tasks. Every other task keeps its response from `completed`, if any.
+    onlyTaskIds?: string[];
+    // Called with every new response, so progress can be checkpointed.
+    onResponse?: (taskId: string, response: ProviderResponse) => void;
 }
 
-
-// --- Main Exported Function ---
-export async function runAnalysis(config: AppConfig, onProgress: (tasks: Task[]) => void): Promise<AnalysisResult[]> {
-    const clients = initializeClients(config);
+// Resolves with whatever completed when the controller cancels the run; prompts without any
+// completed response are left out.
+export async function runAnalysis(config: AppConfig, onProgress: (tasks: Task[]) => void, options: RunOptions = {}): Promise<AnalysisResult[]> {
+    const { controller = createRunController(), completed = {}, onlyTaskIds, onResponse } = options;
+    assertCredentials(config);
+    const targets = getAnalysisTargets(config);
+    const samples = getSamplesPerPrompt(config);
+    // Every prompt is sent to every provider+model `samples` times.
+    const runs = targets.flatMap(target => Array.from({ length: samples }, (_, sample) => ({ target, sample })));
+    const onlyTasks = onlyTaskIds && new Set(onlyTaskIds);
+    const shouldRun = (taskId: string) => onlyTasks ? onlyTasks.has(taskId) : !completed[taskId] || !!completed[taskId].error;
 
     const tasks: Task[] = [];
     config.prompts.forEach((prompt, pIndex) => {
-      config.providers.forEach((provider) => {
-        const modelName = config.models[provider] || 'default';
+      runs.forEach(({ target, sample }) => {
         const shortPrompt = prompt.length > 40 ? prompt.substring(0, 40) + '...' : prompt;
+        const id = getTaskId(pIndex, target.key, sample);
+        if (onlyTasks && !onlyTasks.has(id)) return;
         tasks.push({
-          id: `prompt-${pIndex}-${provider}`,
-          description: `Analyzing "${shortPrompt}" with ${providerBaseNames[provider]} (${modelName})`,
-          status: 'pending',
+          id,
+          description: `Analyzing "${shortPrompt}" with ${getTargetDisplayName(target)}${samples > 1 ? ` (sample ${sample + 1} of ${samples})` : ''}`,
+          status: shouldRun(id) ? 'pending' : 'completed',
         });
       });
     });
     onProgress([...tasks]);
 
-    const updateTaskStatus = (taskId: string, status: Task['status'], error?: string) => {
+    const updateTask = (taskId: string, changes: Partial<Task>) => {
         const taskIndex = tasks.findIndex(t => t.id === taskId);
         if (taskIndex !== -1) {
-          tasks[taskIndex].status = status;
-          if (error) tasks[taskIndex].error = error;
+          tasks[taskIndex] = { ...tasks[taskIndex], ...changes };
           onProgress([...tasks]);
         }
     };
 
-    const resultsByPrompt: AnalysisResult[] = [];
-
-    for (const [pIndex, prompt] of config.prompts.entries()) {
-        const providerPromises = config.providers.map(async (provider) => {
-            const taskId = `prompt-${pIndex}-${provider}`;
-            updateTaskStatus(taskId, 'in_progress');
-
-            let providerFunction: () => Promise<ProviderResponse>;
-
-            switch(provider) {
-                case 'gemini':
-                    if (!clients.gemini || !config.models.gemini) throw new Error('Gemini client not initialized properly.');
-                    providerFunction = () => runGeminiAnalysisForPrompt(prompt, config, clients.gemini!, config.models.gemini!);
-                    break;
-                case 'openai':
-                    if (!clients.openai || !config.models.openai) throw new Error('OpenAI client not initialized properly.');
-                    providerFunction = () => runOpenAIAnalysisForPrompt(prompt, config, clients.openai!, config.models.openai!);
-                    break;
-                case 'perplexity':
-                    if (!clients.perplexity || !config.models.perplexity) throw new Error('Perplexity client not initialized properly.');
-                    providerFunction = () => runPerplexityAnalysisForPrompt(prompt, config, clients.perplexity!, config.models.perplexity!);
-                    break;
-                case 'copilot':
-                    if (!clients.copilot || !config.models.copilot) throw new Error('Copilot client not initialized properly.');
-                    providerFunction = () => runCopilotAnalysisForPrompt(prompt, config, clients.copilot!, config.models.copilot!);
-                    break;
-                default:
-                    const exhaustiveCheck: never = provider;
-                    throw new Error(`Unhandled provider: ${exhaustiveCheck}`);
-            }
-
+    // One scheduler per provider, shared by all of its models and the judge, since limits apply per API key.
+    const schedulers = new Map(getRunProviders(config).map(provider => [provider, createRequestScheduler(getRateLimit(provider, config), controller)]));
+
+    // Every task is queued at once; the schedulers decide how many actually run.
+    const results = await Promise.all(config.prompts.map(async (prompt, pIndex) => {
+        const providerResponses = await Promise.all(runs.map(async ({ target, sample }): Promise<ProviderResponse | null> => {
+            const taskId = getTaskId(pIndex, target.key, sample);
+            if (!shouldRun(taskId)) return completed[taskId] ?? null;
+            const schedule: ScheduleRequest = (provider, request) => schedulers.get(provider)!.run(
+                async () => {
+                    // Marked in progress only once a request actually starts, and again after a retry wait.
+                    const task = tasks.find(t => t.id === taskId);
+                    if (task && (task.status === 'pending' || task.retry)) {
+                        updateTask(taskId, { status: 'in_progress', retry: undefined });
+                    }
+                    return request();
+                },
+                (retry) => updateTask(taskId, { retry }),
+                controller.signal,
+            );
+
+            let response: ProviderResponse;
             try {
-                const response = await providerFunction();
-                if (response.error) {
-                    updateTaskStatus(taskId, 'error', response.error);
-                } else {
-                    updateTaskStatus(taskId, 'completed');
-                }
-                return response;
-            } catch (e) {
-                const errorMsg = e instanceof Error ? e.message : 'An unknown error occurred.';
-                updateTaskStatus(taskId, 'error', errorMsg);
-                return { provider, response: '', brandAnalyses: [], additionalAnswers: [], error: errorMsg };
+                response = await runAnalysisForPrompt(pIndex, config, target, sample, schedule, controller.signal);
+            } catch {
+                updateTask(taskId, { status: 'cancelled', retry: undefined });
+                return completed[taskId] ?? null;
             }
-        });
+            onResponse?.(taskId, response);
+            if (response.error) {
+                updateTask(taskId, { status: 'error', error: response.error, retry: undefined });
+            } else {
+                updateTask(taskId, { status: 'completed', retry: undefined });
+            }
+            return response;
+        }));
+        return { prompt, promptIndex: pIndex, providerResponses: providerResponses.filter((r): r is ProviderResponse => r !== null) };
+    }));
 
-        const providerResponses = await Promise.all(providerPromises);
-        resultsByPrompt.push({ prompt, providerResponses });
-    }
+    return results.filter(result => result.providerResponses.length > 0);
+}
 
-    return resultsByPrompt;
+// Re-runs only the responses that failed and merges the new ones into `results`.
+export function retryFailedResponses(results: AnalysisResult[], config: AppConfig, onProgress: (tasks: Task[]) => void, controller?: RunController): Promise<AnalysisResult[]> {
+    const completed = indexResponsesByTask(results, config);
+    const failed = Object.keys(completed).filter(taskId => completed[taskId].error);
+    return runAnalysis(config, onProgress, { controller, completed, onlyTaskIds: failed });
 }
\ No newline at end of file
@@ -0,0 +1,65 @@
+import type { AppConfig, PromptGeneratorSettings, RetryState, SetupUsage } from '../types';
+import { getProviderAdapter, getTargetKey } from './providers';
+import { completeSetupJson } from './geminiService';
+import { extractJson } from '../utils/analysisParser';
+import { getBrandTerms } from '../utils/brandVariants';
+import { countMentions } from '../utils/mentionCounter';
+import { getTrackedBrands } from '../utils/aggregation';
+
+export const MAX_GENERATED_PROMPTS = 50;
+
+export interface GeneratedPrompts {
+    prompts: string[];
+    discarded: number; // drafts dropped for naming a tracked brand or repeating another
+}
+
+// Case, punctuation and spacing don't make two prompts different.
+export const normalizePrompt = (prompt: string) =>
+    prompt.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// The prompts in order, without repeats of earlier ones or of `existing`.
+export function dedupePrompts(prompts: string[], existing: string[] = []): string[] {
+    const seen = new Set(existing.map(normalizePrompt));
+    return prompts.filter(prompt => {
+        const key = normalizePrompt(prompt);
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+// A prompt that names a tracked brand would measure recall of the name, not visibility.
+export function isBrandedPrompt(prompt: string, config: AppConfig): boolean {
+    return getTrackedBrands(config).filter(Boolean).some(brand => countMentions(prompt, getBrandTerms(brand, config)) > 0);
+}
+
+function buildGeneratorPrompt(settings: PromptGeneratorSettings, config: AppConfig): string {
+    const personas = settings.personas.length > 0
+        ? `Spread them across these buyer personas: ${settings.personas.join('; ')}.`
+        : 'Write them from the point of view of different kinds of buyers.';
+    const competitors = config.competitors.length > 0 ? ` Its competitors include ${config.competitors.join(', ')}.` : '';
+    return `We are measuring which brands AI assistants recommend to people researching ${settings.category}. Our client is ${config.clientName}.${competitors} Write ${settings.count} questions or requests that real buyers would type into an AI assistant while researching ${settings.category}. ${personas} Cover the whole buying journey, from understanding the category to comparing options and choosing one, and vary the length, wording and level of detail. Do NOT name ${config.clientName}, any competitor or any other brand or product, so the answers show which brands the assistant brings up on its own. Respond with a single JSON object with one key, "prompts", which is an array of strings.`;
+}
+
+// Drafts unbranded prompts with the settings' provider+model, through its request scheduler.
+// Drafts that name a tracked brand or repeat another draft or one of `existing` are left out.
+export async function generatePrompts(settings: PromptGeneratorSettings, config: AppConfig, existing: string[], onUsage: (usage: SetupUsage) => void, onRetry?: (retry: RetryState) => void, signal?: AbortSignal): Promise<GeneratedPrompts> {
+    const { provider, model } = settings;
+    const adapter = getProviderAdapter(provider);
+    const target = { key: getTargetKey(provider, model), provider, model };
+    const { text } = await completeSetupJson(config, target, 'generation', buildGeneratorPrompt(settings, config), onUsage, onRetry, signal);
+    let data: unknown;
+    try {
+        data = extractJson(text);
+    } catch (e) {
+        throw new Error(`${adapter.name} did not return a list of prompts: ${(e as Error).message}`);
+    }
+    const items = Array.isArray(data) ? data : (data as { prompts?: unknown } | null)?.prompts;
+    if (!Array.isArray(items)) {
+        throw new Error(`${adapter.name} did not return a list of prompts.`);
+    }
+
+    const drafts = items.filter((item): item is string => typeof item === 'string').map(item => item.trim()).filter(Boolean);
+    const prompts = dedupePrompts(drafts.filter(prompt => !isBrandedPrompt(prompt, config)), existing);
+    return { prompts, discarded: drafts.length - prompts.length };
+}
\ No newline at end of file
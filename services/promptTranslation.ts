@@ -0,0 +1,28 @@
+import type { AnalysisTarget, AppConfig, RetryState, SetupUsage } from '../types';
+import { getProviderAdapter } from './providers';
+import { completeSetupJson } from './geminiService';
+import { extractJson } from '../utils/analysisParser';
+import { describeLocale } from '../utils/locales';
+
+// Translates prompts for one market with the given provider+model, in a single request through
+// its scheduler. Brand names are kept, so prompts stay unbranded or branded as written. Returns
+// the translations in the order of the prompts given.
+export async function translatePrompts(prompts: string[], locale: string, target: AnalysisTarget, config: AppConfig, onUsage: (usage: SetupUsage) => void, onRetry?: (retry: RetryState) => void, signal?: AbortSignal): Promise<string[]> {
+    const adapter = getProviderAdapter(target.provider);
+
+    const market = describeLocale(locale);
+    const request = `Translate the following questions into ${market}, phrased the way buyers in that market would ask an AI assistant. Adapt currencies, units and local terms where that is more natural, but keep the meaning, keep brand names unchanged and don't add any. Respond with a single JSON object with one key, "translations", which is an array of strings with one translation per question, in the same order. Questions: ${JSON.stringify(prompts)}`;
+    const { text } = await completeSetupJson(config, target, 'translation', request, onUsage, onRetry, signal);
+
+    let data: unknown;
+    try {
+        data = extractJson(text);
+    } catch (e) {
+        throw new Error(`${adapter.name} did not return translations into ${market}: ${(e as Error).message}`);
+    }
+    const items = Array.isArray(data) ? data : (data as { translations?: unknown } | null)?.translations;
+    if (!Array.isArray(items) || items.length !== prompts.length || !items.every(item => typeof item === 'string' && item.trim())) {
+        throw new Error(`${adapter.name} did not return one translation into ${market} per prompt.`);
+    }
+    return items.map(item => (item as string).trim());
+}
\ No newline at end of file
@@ -0,0 +1,49 @@
+import type { ProviderAdapter, TokenUsage } from '../../types';
+import { anthropicFetch } from './http';
+
+const MAX_TOKENS = 4096;
+
+interface MessagesResponse {
+    content: { type: string; text?: string; citations?: { url?: string }[] }[];
+    usage?: { input_tokens: number; output_tokens: number };
+}
+
+const getUsage = (data: MessagesResponse): TokenUsage | undefined =>
+    data.usage ? { inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens } : undefined;
+
+// The Messages API returns a list of content blocks; only the text blocks are kept.
+const getText = (data: MessagesResponse) =>
+    data.content.filter(block => block.type === 'text').map(block => block.text).join('');
+
+// Text blocks carry citations when the answer used web search.
+const getCitations = (data: MessagesResponse) =>
+    Array.from(new Set(data.content.flatMap(block => (block.citations || []).flatMap(c => c.url ? [c.url] : []))));
+
+export const claudeProvider: ProviderAdapter = {
+    id: 'claude',
+    name: 'Anthropic Claude',
+    shortName: 'Claude',
+    credentialFields: [
+        { key: 'claude', label: 'Anthropic API Key', description: 'Required for Claude models.', placeholder: 'Enter your Anthropic API key', secret: true },
+    ],
+    models: ['claude-sonnet-4-5', 'claude-opus-4-1', 'claude-haiku-4-5'],
+    defaultModel: 'claude-sonnet-4-5',
+    modelField: { label: 'Claude Models', description: 'Select one or more models. Each model is analyzed separately.' },
+    chartColors: { series: '#f59e0b', positive: '#fbbf24', neutral: '#d4d4d8', negative: '#ef4444' },
+    rateLimit: { concurrency: 2, requestsPerMinute: 50 },
+
+    async complete(apiKeys, model, prompt, signal) {
+        const data = await anthropicFetch(apiKeys.claude!, { model, max_tokens: MAX_TOKENS, messages: [{ role: 'user', content: prompt }] }, signal);
+        return { text: getText(data), citations: getCitations(data), usage: getUsage(data) };
+    },
+
+    // Claude has no JSON mode. Prefilling the assistant turn with "{" makes it continue with the JSON object directly.
+    async completeJson(apiKeys, model, prompt, signal) {
+        const data = await anthropicFetch(apiKeys.claude!, {
+            model,
+            max_tokens: MAX_TOKENS,
+            messages: [{ role: 'user', content: prompt }, { role: 'assistant', content: '{' }],
+        }, signal);
+        return { text: `{${getText(data)}`, usage: getUsage(data) };
+    },
+};
\ No newline at end of file
@@ -0,0 +1,33 @@
+import type { ApiKeys, ProviderAdapter } from '../../types';
+import { azureAIFetch, readChatCompletion, readChatUsage } from './http';
+
+const API_VERSION = '2024-02-01';
+
+// On Azure the model is the deployment name, which is part of the URL.
+const getDeploymentUrl = (apiKeys: ApiKeys, model: string) =>
+    `${apiKeys.copilotEndpoint}/openai/deployments/${model}/chat/completions?api-version=${API_VERSION}`;
+
+export const copilotProvider: ProviderAdapter = {
+    id: 'copilot',
+    name: 'Copilot / Azure',
+    shortName: 'Copilot',
+    credentialFields: [
+        { key: 'copilotEndpoint', label: 'Azure/Copilot Endpoint URL', description: 'The base URL for your Azure OpenAI resource.', placeholder: 'e.g., https://your-resource.openai.azure.com' },
+        { key: 'copilotKey', label: 'Azure/Copilot API Key', description: 'The API key for your Azure OpenAI resource.', placeholder: 'Enter your Azure API key', secret: true },
+    ],
+    models: [],
+    defaultModel: 'gpt-4o',
+    modelField: { label: 'Azure/Copilot Deployment Names', description: "The 'model' name of your deployment. Separate multiple deployments with commas.", placeholder: 'e.g., gpt-4o-deployment' },
+    chartColors: { series: '#f472b6', positive: '#60a5fa', neutral: '#a1a1aa', negative: '#f472b6' },
+    rateLimit: { concurrency: 4, requestsPerMinute: 60 },
+
+    async complete(apiKeys, model, prompt, signal) {
+        const data = await azureAIFetch(getDeploymentUrl(apiKeys, model), apiKeys.copilotKey!, { messages: [{ role: 'user', content: prompt }] }, signal);
+        return readChatCompletion(data);
+    },
+
+    async completeJson(apiKeys, model, prompt, signal) {
+        const data = await azureAIFetch(getDeploymentUrl(apiKeys, model), apiKeys.copilotKey!, { messages: [{ role: 'user', content: prompt }], response_format: { type: "json_object" } }, signal);
+        return { text: data.choices[0].message.content, usage: readChatUsage(data) };
+    },
+};
\ No newline at end of file
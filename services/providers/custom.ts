@@ -0,0 +1,32 @@
+import type { ApiKeys, ProviderAdapter } from '../../types';
+import { genericAIFetch, readChatCompletion, readChatUsage } from './http';
+
+// Accepts the base URL with or without a trailing slash, e.g. http://localhost:11434/v1
+const getCompletionsUrl = (apiKeys: ApiKeys) =>
+    `${apiKeys.customBaseUrl!.replace(/\/+$/, '')}/chat/completions`;
+
+// Any server exposing the OpenAI chat completions API: Ollama, vLLM, LM Studio, gateways or a local stand-in.
+export const customProvider: ProviderAdapter = {
+    id: 'custom',
+    name: 'Custom (OpenAI-compatible)',
+    shortName: 'Custom',
+    credentialFields: [
+        { key: 'customBaseUrl', label: 'OpenAI-Compatible Base URL', description: 'The base URL of the chat completions API, e.g. an Ollama, vLLM or LM Studio server.', placeholder: 'e.g., http://localhost:11434/v1' },
+        { key: 'customKey', label: 'OpenAI-Compatible API Key', description: "Optional. Leave empty for servers that don't require a key.", placeholder: 'Enter your API key', secret: true, optional: true },
+    ],
+    models: [],
+    defaultModel: '',
+    modelField: { label: 'Model Names', description: 'The model name as the server expects it. Separate multiple models with commas.', placeholder: 'e.g., llama3.1:8b' },
+    chartColors: { series: '#a78bfa', positive: '#a78bfa', neutral: '#94a3b8', negative: '#fb923c' },
+    rateLimit: { concurrency: 2, requestsPerMinute: 30 },
+
+    async complete(apiKeys, model, prompt, signal) {
+        const data = await genericAIFetch(getCompletionsUrl(apiKeys), apiKeys.customKey, { model, messages: [{ role: 'user', content: prompt }] }, {}, signal);
+        return readChatCompletion(data);
+    },
+
+    async completeJson(apiKeys, model, prompt, signal) {
+        const data = await genericAIFetch(getCompletionsUrl(apiKeys), apiKeys.customKey, { model, messages: [{ role: 'user', content: prompt }], response_format: { type: "json_object" } }, {}, signal);
+        return { text: data.choices[0].message.content, usage: readChatUsage(data) };
+    },
+};
\ No newline at end of file
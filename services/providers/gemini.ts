@@ -0,0 +1,43 @@
+import { GoogleGenAI, type GenerateContentResponse } from "@google/genai";
+import type { ApiKeys, ProviderAdapter, TokenUsage } from '../../types';
+
+const getClient = (apiKeys: ApiKeys) => new GoogleGenAI({ apiKey: apiKeys.gemini! });
+
+// Thinking tokens are billed as output.
+const getUsage = (result: GenerateContentResponse): TokenUsage | undefined => {
+    const usage = result.usageMetadata;
+    return usage ? {
+        inputTokens: usage.promptTokenCount ?? 0,
+        outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+    } : undefined;
+};
+
+export const geminiProvider: ProviderAdapter = {
+    id: 'gemini',
+    name: 'Google Gemini',
+    shortName: 'Gemini',
+    credentialFields: [
+        { key: 'gemini', label: 'Google Gemini API Key', description: 'Required for Gemini models.', placeholder: 'Enter your Gemini API key', secret: true },
+    ],
+    models: ['gemini-2.5-flash'],
+    defaultModel: 'gemini-2.5-flash',
+    modelField: { label: 'Gemini Models', description: 'Select one or more models. Each model is analyzed separately.' },
+    chartColors: { series: '#48bb78', positive: '#48bb78', neutral: '#a0aec0', negative: '#f56565' },
+    rateLimit: { concurrency: 4, requestsPerMinute: 60 },
+
+    async complete(apiKeys, model, prompt, signal) {
+        const result = await getClient(apiKeys).models.generateContent({ model, contents: prompt, config: { abortSignal: signal } });
+        // Sources are only present when the model grounded its answer with Google Search.
+        const chunks = result.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+        return {
+            text: result.text ?? '',
+            citations: Array.from(new Set(chunks.flatMap(chunk => chunk.web?.uri ? [chunk.web.uri] : []))),
+            usage: getUsage(result),
+        };
+    },
+
+    async completeJson(apiKeys, model, prompt, signal) {
+        const result = await getClient(apiKeys).models.generateContent({ model, contents: prompt, config: { responseMimeType: "application/json", abortSignal: signal } });
+        return { text: result.text ?? '', usage: getUsage(result) };
+    },
+};
\ No newline at end of file
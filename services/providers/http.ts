@@ -0,0 +1,100 @@
+import type { Completion, TokenUsage } from '../../types';
+
+// A failed API call. `status` drives retries; `retryAfterMs` comes from the Retry-After header when sent.
+export class ApiError extends Error {
+    constructor(message: string, public readonly status: number, public readonly retryAfterMs?: number) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+// Retry-After is either a number of seconds or an HTTP date.
+function parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+async function throwApiError(response: Response): Promise<never> {
+    const errorData = await response.json().catch(() => ({ error: { message: response.statusText } }));
+    throw new ApiError(
+        `API Error (${response.status}): ${errorData.error?.message || response.statusText}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after')),
+    );
+}
+
+// --- Generic Fetch for OpenAI-Compatible APIs ---
+// The key may be omitted for self-hosted servers that don't require authentication.
+export async function genericAIFetch(url: string, apiKey: string | undefined, body: object, headers: Record<string, string> = {}, signal?: AbortSignal) {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+            ...headers,
+        },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (!response.ok) await throwApiError(response);
+    return response.json();
+}
+
+export async function azureAIFetch(url: string, apiKey: string, body: object, signal?: AbortSignal) {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'api-key': apiKey,
+        },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (!response.ok) await throwApiError(response);
+    return response.json();
+}
+
+// Anthropic's Messages API is not OpenAI-compatible: it authenticates with `x-api-key`
+// and needs an explicit opt-in header to be called from the browser.
+export async function anthropicFetch(apiKey: string, body: object, signal?: AbortSignal) {
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'x-api-key': apiKey,
+            'anthropic-version': '2023-06-01',
+            'anthropic-dangerous-direct-browser-access': 'true',
+        },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (!response.ok) await throwApiError(response);
+    return response.json();
+}
+
+interface ChatCompletionResponse {
+    choices: { message: { content: string; annotations?: { type: string; url_citation?: { url: string } }[] } }[];
+    citations?: string[]; // Perplexity
+    search_results?: { url: string }[]; // Perplexity
+    usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+export function readChatUsage(data: ChatCompletionResponse): TokenUsage | undefined {
+    return data.usage ? { inputTokens: data.usage.prompt_tokens ?? 0, outputTokens: data.usage.completion_tokens ?? 0 } : undefined;
+}
+
+// Reads the text and cited URLs from an OpenAI-compatible chat completion. OpenAI reports
+// web search sources as message annotations, Perplexity as top-level `citations`.
+export function readChatCompletion(data: ChatCompletionResponse): Completion {
+    const message = data.choices[0].message;
+    const annotated = (message.annotations || []).flatMap(a => a.url_citation ? [a.url_citation.url] : []);
+    const searched = (data.search_results || []).map(r => r.url);
+    return {
+        text: message.content,
+        citations: Array.from(new Set([...(data.citations || []), ...searched, ...annotated])),
+        usage: readChatUsage(data),
+    };
+}
@@ -0,0 +1,60 @@
+import type { AnalysisTarget, ApiKeys, AppConfig, Provider, ProviderAdapter } from '../../types';
+import { geminiProvider } from './gemini';
+import { openaiProvider } from './openai';
+import { perplexityProvider } from './perplexity';
+import { copilotProvider } from './copilot';
+import { claudeProvider } from './claude';
+import { customProvider } from './custom';
+
+// The single list of supported providers. The setup form, analysis service,
+// dashboard and exporter all read from here, in this order.
+export const providerRegistry: Record<Provider, ProviderAdapter> = {
+    gemini: geminiProvider,
+    openai: openaiProvider,
+    perplexity: perplexityProvider,
+    copilot: copilotProvider,
+    claude: claudeProvider,
+    custom: customProvider,
+};
+
+export const providerIds = Object.keys(providerRegistry) as Provider[];
+
+export function getProviderAdapter(provider: Provider): ProviderAdapter {
+    const adapter = providerRegistry[provider];
+    if (!adapter) throw new Error(`Unknown provider: ${provider}`);
+    return adapter;
+}
+
+export function getMissingCredentials(provider: Provider, apiKeys: ApiKeys): string[] {
+    return getProviderAdapter(provider).credentialFields
+        .filter(field => !field.optional && !apiKeys[field.key]?.trim())
+        .map(field => field.label);
+}
+
+export const getTargetKey = (provider: Provider, model: string): string => `${provider}:${model}`;
+
+// Every provider+model pair of a run, in the order the providers were selected.
+export function getAnalysisTargets(config: Pick<AppConfig, 'providers' | 'models'>): AnalysisTarget[] {
+    return config.providers.flatMap(provider =>
+        (config.models[provider] || []).map(model => ({ key: getTargetKey(provider, model), provider, model }))
+    );
+}
+
+// The provider+model that grades every response, or null when each model graded its own.
+export function getJudgeTarget(config: Pick<AppConfig, 'judge'>): AnalysisTarget | null {
+    if (!config.judge) return null;
+    const { provider, model } = config.judge;
+    return { key: getTargetKey(provider, model), provider, model };
+}
+
+export const getTargetDisplayName = (target: Pick<AnalysisTarget, 'provider' | 'model'>): string =>
+    `${getProviderAdapter(target.provider).name} (${target.model})`;
+
+// Compact label for table headers; long model names are truncated.
+export const getTargetShortName = (target: Pick<AnalysisTarget, 'provider' | 'model'>): string => {
+    const { shortName } = getProviderAdapter(target.provider);
+    if (target.model.length > 10) {
+        return `${shortName} (${target.model.substring(0,10)}...)`;
+    }
+    return `${shortName} (${target.model})`;
+};
\ No newline at end of file
@@ -0,0 +1,28 @@
+import type { ProviderAdapter } from '../../types';
+import { genericAIFetch, readChatCompletion, readChatUsage } from './http';
+
+const OPENAI_URL = 'https://api.openai.com/v1/chat/completions';
+
+export const openaiProvider: ProviderAdapter = {
+    id: 'openai',
+    name: 'OpenAI',
+    shortName: 'OpenAI',
+    credentialFields: [
+        { key: 'openai', label: 'OpenAI API Key', description: 'Required for OpenAI models.', placeholder: 'Enter your OpenAI API key', secret: true },
+    ],
+    models: ['gpt-4o-mini', 'gpt-4o', 'gpt-4-turbo'],
+    defaultModel: 'gpt-4o-mini',
+    modelField: { label: 'OpenAI Models', description: 'Select one or more models. Each model is analyzed separately.' },
+    chartColors: { series: '#60a5fa', positive: '#34d399', neutral: '#9ca3af', negative: '#f87171' },
+    rateLimit: { concurrency: 4, requestsPerMinute: 60 },
+
+    async complete(apiKeys, model, prompt, signal) {
+        const data = await genericAIFetch(OPENAI_URL, apiKeys.openai!, { model, messages: [{ role: 'user', content: prompt }] }, {}, signal);
+        return readChatCompletion(data);
+    },
+
+    async completeJson(apiKeys, model, prompt, signal) {
+        const data = await genericAIFetch(OPENAI_URL, apiKeys.openai!, { model, messages: [{ role: 'user', content: prompt }], response_format: { type: "json_object" } }, {}, signal);
+        return { text: data.choices[0].message.content, usage: readChatUsage(data) };
+    },
+};
\ No newline at end of file
@@ -0,0 +1,30 @@
+import type { ProviderAdapter } from '../../types';
+import { genericAIFetch, readChatCompletion, readChatUsage } from './http';
+
+const PERPLEXITY_URL = 'https://api.perplexity.ai/chat/completions';
+
+export const perplexityProvider: ProviderAdapter = {
+    id: 'perplexity',
+    name: 'Perplexity',
+    shortName: 'Perplexity',
+    credentialFields: [
+        { key: 'perplexity', label: 'Perplexity API Key', description: 'Required for Perplexity models.', placeholder: 'Enter your Perplexity API key', secret: true },
+    ],
+    models: ['llama-3-sonar-large-32k-online', 'llama-3-sonar-small-32k-online', 'sonar', 'sonar pro', 'sonar reasoning', 'sonar reasoning pro', 'sonar deep research', 'r1-1776'],
+    defaultModel: 'llama-3-sonar-large-32k-online',
+    modelField: { label: 'Perplexity Models', description: 'Select one or more models. Each model is analyzed separately.' },
+    chartColors: { series: '#2dd4bf', positive: '#2dd4bf', neutral: '#6b7280', negative: '#fb7185' },
+    rateLimit: { concurrency: 2, requestsPerMinute: 50 },
+
+    async complete(apiKeys, model, prompt, signal) {
+        const data = await genericAIFetch(PERPLEXITY_URL, apiKeys.perplexity!, { model, messages: [{ role: 'user', content: prompt }] }, {}, signal);
+        return readChatCompletion(data);
+    },
+
+    // Perplexity has no JSON mode, so the JSON is requested inside a ```json code block.
+    async completeJson(apiKeys, model, prompt, signal) {
+        const jsonPrompt = `${prompt}\n\nRespond with the JSON object inside a \`\`\`json code block.`;
+        const data = await genericAIFetch(PERPLEXITY_URL, apiKeys.perplexity!, { model, messages: [{ role: 'user', content: jsonPrompt }] }, {}, signal);
+        return { text: data.choices[0].message.content, usage: readChatUsage(data) };
+    },
+};
\ No newline at end of file
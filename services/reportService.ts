@@ -1,17 +1,50 @@
 import { supabase } from '../lib/supabase';
 import type { Database } from '../lib/supabase';
+import type { AnalysisResult, AppConfig, ReportConfig, ReportData, SavedReport } from '../types';
 
 type ReportRow = Database['public']['Tables']['reports']['Row'];
 type ReportInsert = Database['public']['Tables']['reports']['Insert'];
 
-export interface SavedReport {
-  id: string;
-  clientName: string;
-  htmlContent: string;
-  shareToken: string;
-  createdAt: string;
-  updatedAt: string;
-  userId?: string | null;
+// Bump whenever the shape of the stored `config` or `results` changes.
+export const REPORT_SCHEMA_VERSION = 2;
+
+// Remove credentials before a configuration leaves the browser.
+export function stripApiKeys(config: AppConfig): ReportConfig {
+  const { apiKeys: _apiKeys, ...reportConfig } = config;
+  return reportConfig;
+}
+
+// Fingerprint identifying repeated runs of the same analysis. Order and casing of
+// competitors and prompts are ignored so a reshuffled list stays in the same project.
+export async function getProjectKey(config: ReportConfig): Promise<string> {
+  const normalize = (values: string[]) => values.map(v => v.trim().toLowerCase()).sort();
+  const fingerprint = JSON.stringify({
+    clientName: config.clientName.trim().toLowerCase(),
+    competitors: normalize(config.competitors),
+    prompts: normalize(config.prompts),
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(fingerprint));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Upgrade stored data to the current shape so older reports still render in the dashboard.
+function migrateReportData(data: ReportData): ReportData {
+  let { config, results } = data;
+
+  // v1 -> v2: one model per provider became a list of models, and responses record their model.
+  if (data.schemaVersion < 2) {
+    const legacyModels = config.models as unknown as Partial<Record<string, string>>;
+    config = {
+      ...config,
+      models: Object.fromEntries(config.providers.map(p => [p, legacyModels[p] ? [legacyModels[p]!] : []])),
+    };
+    results = results.map(result => ({
+      ...result,
+      providerResponses: result.providerResponses.map(pr => ({ ...pr, model: pr.model ?? legacyModels[pr.provider] ?? '' })),
+    }));
+  }
+
+  return { schemaVersion: REPORT_SCHEMA_VERSION, config, results };
 }
 
 // Convert database row to our SavedReport interface
@@ -24,16 +57,24 @@ function mapReportRow(row: ReportRow): SavedReport {
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     userId: row.user_id,
+    projectKey: row.project_key,
+    data: row.config && row.results
+      ? migrateReportData({ schemaVersion: row.schema_version ?? 1, config: row.config, results: row.results })
+      : null,
   };
 }
 
-export async function saveReport(clientName: string, htmlContent: string): Promise<SavedReport> {
+export async function saveReport(results: AnalysisResult[], config: AppConfig, htmlContent: string): Promise<SavedReport> {
   const { data: { user } } = await supabase.auth.getUser();
   
   const reportData: ReportInsert = {
-    client_name: clientName,
+    client_name: config.clientName,
     html_content: htmlContent,
     user_id: user?.id || null,
+    schema_version: REPORT_SCHEMA_VERSION,
+    config: stripApiKeys(config),
+    results,
+    project_key: await getProjectKey(config),
   };
 
   const { data, error } = await supabase
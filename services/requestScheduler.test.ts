@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RetryState } from '../types';
+import { createRequestScheduler } from './requestScheduler';
+import { createRunController } from './runController';
+import { ApiError } from './providers/http';
+
+const LIMIT = { concurrency: 2, requestsPerMinute: 100 };
+
+// A request that fails with each of `errors` in turn, then resolves with 'ok'.
+const failingWith = (...errors: unknown[]) => {
+    let calls = 0;
+    const request = vi.fn(async () => {
+        if (calls < errors.length) throw errors[calls++];
+        return 'ok';
+    });
+    return request;
+};
+
+describe('createRequestScheduler', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        // No jitter, so backoff delays are exact.
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('backs off exponentially between retries of server errors', async () => {
+        const scheduler = createRequestScheduler(LIMIT);
+        const request = failingWith(new ApiError('Unavailable', 503), new ApiError('Unavailable', 503));
+        const retries: RetryState[] = [];
+
+        const result = scheduler.run(request, retry => retries.push(retry));
+        await vi.advanceTimersByTimeAsync(0);
+        expect(request).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1_999);
+        expect(request).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(request).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(4_000);
+
+        await expect(result).resolves.toBe('ok');
+        expect(retries).toEqual([
+            { attempt: 2, maxAttempts: 5, delayMs: 2_000, reason: 'Server error (503)' },
+            { attempt: 3, maxAttempts: 5, delayMs: 4_000, reason: 'Server error (503)' },
+        ]);
+    });
+
+    it('waits as long as Retry-After asks, up to a minute', async () => {
+        const scheduler = createRequestScheduler(LIMIT);
+        const request = failingWith(new ApiError('Too many requests', 429, 10_000), new ApiError('Too many requests', 429, 600_000));
+        const retries: RetryState[] = [];
+
+        const result = scheduler.run(request, retry => retries.push(retry));
+        await vi.advanceTimersByTimeAsync(70_000);
+
+        await expect(result).resolves.toBe('ok');
+        expect(retries.map(r => [r.delayMs, r.reason])).toEqual([[10_000, 'Rate limited'], [60_000, 'Rate limited']]);
+    });
+
+    it('retries network failures', async () => {
+        const scheduler = createRequestScheduler(LIMIT);
+        const request = failingWith(new TypeError('Failed to fetch'));
+        const retries: RetryState[] = [];
+
+        const result = scheduler.run(request, retry => retries.push(retry));
+        await vi.advanceTimersByTimeAsync(2_000);
+
+        await expect(result).resolves.toBe('ok');
+        expect(retries[0].reason).toBe('Network error');
+    });
+
+    it('does not retry client errors', async () => {
+        const scheduler = createRequestScheduler(LIMIT);
+        const error = new ApiError('Bad request', 400);
+        const request = failingWith(error);
+
+        await expect(scheduler.run(request)).rejects.toBe(error);
+        expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives up after the last attempt', async () => {
+        const scheduler = createRequestScheduler(LIMIT);
+        const errors = Array.from({ length: 5 }, () => new ApiError('Unavailable', 500));
+        const request = failingWith(...errors);
+
+        const result = scheduler.run(request);
+        const rejected = expect(result).rejects.toBe(errors[4]);
+        await vi.advanceTimersByTimeAsync(60_000);
+
+        await rejected;
+        expect(request).toHaveBeenCalledTimes(5);
+    });
+
+    it('stops waiting for a retry when aborted', async () => {
+        const scheduler = createRequestScheduler(LIMIT);
+        const controller = new AbortController();
+        const request = failingWith(new ApiError('Unavailable', 503));
+
+        const result = scheduler.run(request, undefined, controller.signal);
+        const rejected = expect(result).rejects.toThrow('cancelled');
+        await vi.advanceTimersByTimeAsync(1_000);
+        controller.abort(new Error('cancelled'));
+
+        await rejected;
+        expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('runs no more requests at once than the concurrency limit', async () => {
+        const scheduler = createRequestScheduler({ concurrency: 2, requestsPerMinute: 100 });
+        let running = 0;
+        let maxRunning = 0;
+        const request = async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise(resolve => setTimeout(resolve, 100));
+            running--;
+        };
+
+        const all = Promise.all(Array.from({ length: 5 }, () => scheduler.run(request)));
+        await vi.advanceTimersByTimeAsync(300);
+        await all;
+
+        expect(maxRunning).toBe(2);
+    });
+
+    it('starts no more requests per minute than the limit', async () => {
+        const scheduler = createRequestScheduler({ concurrency: 10, requestsPerMinute: 2 });
+        const request = vi.fn(async () => 'ok');
+
+        const all = Promise.all(Array.from({ length: 3 }, () => scheduler.run(request)));
+        await vi.advanceTimersByTimeAsync(59_999);
+        expect(request).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1);
+        await all;
+
+        expect(request).toHaveBeenCalledTimes(3);
+    });
+
+    it('starts no requests while paused', async () => {
+        const run = createRunController();
+        const scheduler = createRequestScheduler(LIMIT, run);
+        const request = vi.fn(async () => 'ok');
+
+        run.pause();
+        const result = scheduler.run(request);
+        await vi.advanceTimersByTimeAsync(10_000);
+        expect(request).not.toHaveBeenCalled();
+        run.resume();
+
+        await expect(result).resolves.toBe('ok');
+        expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('forgets only its own start when a request is paused after getting its slot', async () => {
+        // Paused once, right after the first request gets its slot.
+        const pause = { isPaused: vi.fn().mockReturnValueOnce(true).mockReturnValue(false), waitWhilePaused: async () => {} };
+        const scheduler = createRequestScheduler({ concurrency: 10, requestsPerMinute: 2 }, pause);
+        const request = vi.fn(async () => 'ok');
+        vi.setSystemTime(2_000);
+        // The two requests get their slots at 0 and 1s; the paused one starts again at 2s.
+        vi.spyOn(Date, 'now').mockReturnValueOnce(0).mockReturnValueOnce(1_000);
+
+        await Promise.all([scheduler.run(request), scheduler.run(request)]);
+        const third = scheduler.run(request);
+        // The minute is full until the start at 1s, not the one at 0, leaves it.
+        await vi.advanceTimersByTimeAsync(58_000);
+        expect(request).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1_000);
+
+        await expect(third).resolves.toBe('ok');
+        expect(request).toHaveBeenCalledTimes(3);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,138 @@
+import type { RateLimit, RetryState } from '../types';
+import type { RunController } from './runController';
+
+const MINUTE = 60_000;
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 2_000;
+const MAX_DELAY_MS = 60_000;
+
+export interface RequestScheduler {
+    // Runs `request` once a slot is free, retrying rate limits, server errors and network failures.
+    // Aborting `signal` stops waiting for a slot or a retry.
+    run<T>(request: () => Promise<T>, onRetry?: (retry: RetryState) => void, signal?: AbortSignal): Promise<T>;
+}
+
+// Both our own `ApiError` and the Gemini SDK's error expose the HTTP status as `status`.
+const getStatus = (e: unknown): number | undefined => {
+    const status = (e as { status?: unknown } | null)?.status;
+    return typeof status === 'number' ? status : undefined;
+};
+
+function isRetryable(e: unknown): boolean {
+    const status = getStatus(e);
+    if (status !== undefined) return status === 429 || status >= 500;
+    // fetch rejects with a TypeError when the request never reached the server.
+    return e instanceof TypeError;
+}
+
+// Honors Retry-After when the server sent it, otherwise backs off exponentially with jitter.
+function getRetryDelay(e: unknown, attempt: number): number {
+    const retryAfterMs = (e as { retryAfterMs?: unknown } | null)?.retryAfterMs;
+    if (typeof retryAfterMs === 'number') return Math.min(retryAfterMs, MAX_DELAY_MS);
+    const backoff = BASE_DELAY_MS * 2 ** (attempt - 1);
+    return Math.min(backoff + Math.random() * backoff * 0.25, MAX_DELAY_MS);
+}
+
+const describeRetryReason = (e: unknown) => {
+    const status = getStatus(e);
+    if (status === 429) return 'Rate limited';
+    if (status !== undefined) return `Server error (${status})`;
+    return 'Network error';
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Limits how many requests run at once and how many start per rolling minute. One scheduler
+// is shared by everything sent to the same provider, since that is where limits are enforced.
+// While `pause` is paused no request takes a slot, so resuming doesn't release a burst of
+// requests that were holding them.
+export function createRequestScheduler(limit: RateLimit, pause?: Pick<RunController, 'isPaused' | 'waitWhilePaused'>): RequestScheduler {
+    let active = 0;
+    const waiting: ((startedAt: number) => void)[] = [];
+    const recentStarts: number[] = [];
+    let windowTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const pump = () => {
+        const now = Date.now();
+        while (recentStarts.length > 0 && recentStarts[0] <= now - MINUTE) recentStarts.shift();
+        while (waiting.length > 0 && active < limit.concurrency && recentStarts.length < limit.requestsPerMinute) {
+            active++;
+            recentStarts.push(now);
+            waiting.shift()!(now);
+        }
+        // Blocked by the per-minute limit: try again once the oldest start leaves the window.
+        if (waiting.length > 0 && active < limit.concurrency && !windowTimer) {
+            windowTimer = setTimeout(() => {
+                windowTimer = null;
+                pump();
+            }, recentStarts[0] + MINUTE - now);
+        }
+    };
+
+    // Resolves with the start time recorded for the slot.
+    const acquire = (signal?: AbortSignal) => new Promise<number>((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const onAbort = () => {
+            const index = waiting.indexOf(start);
+            if (index !== -1) waiting.splice(index, 1);
+            reject(signal!.reason);
+        };
+        const start = (startedAt: number) => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve(startedAt);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        waiting.push(start);
+        pump();
+    });
+
+    const release = () => {
+        active--;
+        pump();
+    };
+
+    // A slot granted after the run was paused is handed back and waited for again on resume.
+    const acquireUnpaused = async (signal?: AbortSignal) => {
+        for (;;) {
+            await pause?.waitWhilePaused();
+            const startedAt = await acquire(signal);
+            if (!pause?.isPaused()) return;
+            // The request never started, so it doesn't count against the per-minute limit. Other
+            // requests may have started since, so its own start is removed rather than the latest.
+            const index = recentStarts.indexOf(startedAt);
+            if (index !== -1) recentStarts.splice(index, 1);
+            release();
+        }
+    };
+
+    return {
+        async run(request, onRetry, signal) {
+            for (let attempt = 1; ; attempt++) {
+                let delayMs = 0;
+                await acquireUnpaused(signal);
+                try {
+                    return await request();
+                } catch (e) {
+                    if (attempt >= MAX_ATTEMPTS || signal?.aborted || !isRetryable(e)) throw e;
+                    delayMs = getRetryDelay(e, attempt);
+                    onRetry?.({ attempt: attempt + 1, maxAttempts: MAX_ATTEMPTS, delayMs, reason: describeRetryReason(e) });
+                } finally {
+                    release();
+                }
+                // The slot is released while waiting so other requests can use it.
+                await sleep(delayMs, signal);
+            }
+        },
+    };
+}
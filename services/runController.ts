@@ -0,0 +1,47 @@
+// Lets the UI pause, resume and cancel a running analysis. Cancelling aborts requests in
+// flight through `signal`; pausing holds back requests that haven't started yet.
+export interface RunController {
+    signal: AbortSignal;
+    isPaused(): boolean;
+    pause(): void;
+    resume(): void;
+    cancel(): void;
+    // Resolves right away unless paused. Rejects if the run is cancelled while waiting.
+    waitWhilePaused(): Promise<void>;
+}
+
+const abortError = () => new DOMException('The analysis was cancelled.', 'AbortError');
+
+export function createRunController(): RunController {
+    const abortController = new AbortController();
+    let paused = false;
+    let resumeWaiters: (() => void)[] = [];
+
+    const releaseWaiters = () => {
+        resumeWaiters.forEach(resolve => resolve());
+        resumeWaiters = [];
+    };
+
+    return {
+        signal: abortController.signal,
+        isPaused: () => paused,
+        pause() {
+            paused = true;
+        },
+        resume() {
+            paused = false;
+            releaseWaiters();
+        },
+        cancel() {
+            abortController.abort(abortError());
+            releaseWaiters();
+        },
+        waitWhilePaused() {
+            if (abortController.signal.aborted) return Promise.reject(abortError());
+            if (!paused) return Promise.resolve();
+            return new Promise((resolve, reject) => {
+                resumeWaiters.push(() => abortController.signal.aborted ? reject(abortError()) : resolve());
+            });
+        },
+    };
+}
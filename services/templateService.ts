@@ -0,0 +1,120 @@
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/supabase';
+import type { AnalysisTemplate, AppConfig, LibraryPrompt } from '../types';
+import { stripApiKeys } from './reportService';
+
+type TemplateRow = Database['public']['Tables']['analysis_templates']['Row'];
+type LibraryPromptRow = Database['public']['Tables']['library_prompts']['Row'];
+
+function mapTemplateRow(row: TemplateRow): AnalysisTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    config: row.config,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapLibraryPromptRow(row: LibraryPromptRow): LibraryPrompt {
+  return {
+    id: row.id,
+    text: row.text,
+    tags: row.tags,
+    createdAt: row.created_at,
+  };
+}
+
+export async function getUserTemplates(): Promise<AnalysisTemplate[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('analysis_templates')
+    .select('*')
+    .eq('user_id', user?.id || null)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching templates:', error);
+    throw new Error(`Failed to fetch templates: ${error.message}`);
+  }
+
+  return data.map(mapTemplateRow);
+}
+
+// Saving under the name of an existing template replaces it.
+export async function saveTemplate(name: string, config: AppConfig, existing?: AnalysisTemplate): Promise<AnalysisTemplate> {
+  const { data: { user } } = await supabase.auth.getUser();
+  const row = { name, config: stripApiKeys(config), user_id: user?.id || null };
+
+  const { data, error } = existing
+    ? await supabase.from('analysis_templates').update({ ...row, updated_at: new Date().toISOString() }).eq('id', existing.id).select().single()
+    : await supabase.from('analysis_templates').insert(row).select().single();
+
+  if (error) {
+    console.error('Error saving template:', error);
+    throw new Error(`Failed to save template: ${error.message}`);
+  }
+
+  return mapTemplateRow(data);
+}
+
+export async function deleteTemplate(templateId: string): Promise<void> {
+  const { error } = await supabase
+    .from('analysis_templates')
+    .delete()
+    .eq('id', templateId);
+
+  if (error) {
+    console.error('Error deleting template:', error);
+    throw new Error(`Failed to delete template: ${error.message}`);
+  }
+}
+
+export async function getLibraryPrompts(): Promise<LibraryPrompt[]> {
+  const { data, error } = await supabase
+    .from('library_prompts')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching prompt library:', error);
+    throw new Error(`Failed to fetch prompt library: ${error.message}`);
+  }
+
+  return data.map(mapLibraryPromptRow);
+}
+
+export async function addLibraryPrompts(texts: string[], tags: string[]): Promise<LibraryPrompt[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('library_prompts')
+    .insert(texts.map(text => ({ text, tags, user_id: user?.id || null })))
+    .select();
+
+  if (error) {
+    console.error('Error adding library prompts:', error);
+    throw new Error(`Failed to add prompts to the library: ${error.message}`);
+  }
+
+  return data.map(mapLibraryPromptRow);
+}
+
+// Only the signed-in contributor may delete a prompt. Row level security silently skips
+// other rows, so an empty result means the prompt wasn't theirs.
+export async function deleteLibraryPrompt(promptId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('library_prompts')
+    .delete()
+    .eq('id', promptId)
+    .select('id');
+
+  if (error) {
+    console.error('Error deleting library prompt:', error);
+    throw new Error(`Failed to delete library prompt: ${error.message}`);
+  }
+  if (data.length === 0) {
+    throw new Error('Only the person who shared this prompt can delete it.');
+  }
+}
\ No newline at end of file
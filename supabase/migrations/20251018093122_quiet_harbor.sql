@@ -0,0 +1,17 @@
+/*
+  # Store structured analysis data with reports
+
+  1. Changes
+    - `reports`
+      - `schema_version` (integer, nullable) - version of the stored `config`/`results` shape
+      - `config` (jsonb, nullable) - the analysis configuration, without API keys
+      - `results` (jsonb, nullable) - the full `AnalysisResult[]` of the run
+
+  2. Notes
+    - Columns are nullable so reports saved before this migration keep working.
+      Those reports can only be viewed through their stored `html_content`.
+*/
+
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS schema_version integer;
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS config jsonb;
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS results jsonb;
\ No newline at end of file
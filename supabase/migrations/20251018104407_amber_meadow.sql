@@ -0,0 +1,15 @@
+/*
+  # Group reports into projects
+
+  1. Changes
+    - `reports`
+      - `project_key` (text, nullable) - fingerprint of the client name, competitors and prompts.
+        Reports sharing a key are repeated runs of the same analysis and form a trend.
+
+  2. Indexes
+    - `idx_reports_project_key` for loading all runs of a project
+*/
+
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS project_key text;
+
+CREATE INDEX IF NOT EXISTS idx_reports_project_key ON reports(project_key);
\ No newline at end of file
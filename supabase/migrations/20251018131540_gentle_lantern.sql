@@ -0,0 +1,48 @@
+/*
+  # Checkpoints of analysis runs in progress
+
+  1. New Tables
+    - `run_checkpoints`
+      - `id` (uuid, primary key) - generated in the browser when the run starts
+      - `user_id` (uuid, references auth.users, nullable for anonymous runs)
+      - `client_name` (text, not null)
+      - `config` (jsonb, not null) - the run's configuration, without API keys
+      - `responses` (jsonb, not null) - completed provider responses keyed by task id
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `run_checkpoints` table
+    - Users manage their own checkpoints
+    - Anonymous checkpoints have no owner, so a request can only see or change one
+      it names in the `x-checkpoint-id` header. The id is random and only known to
+      the browser that started the run
+*/
+
+CREATE TABLE IF NOT EXISTS run_checkpoints (
+  id uuid PRIMARY KEY,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  client_name text NOT NULL,
+  config jsonb NOT NULL,
+  responses jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE run_checkpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own checkpoints"
+  ON run_checkpoints
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Anonymous users can manage the anonymous checkpoint they name"
+  ON run_checkpoints
+  FOR ALL
+  TO anon
+  USING (user_id IS NULL AND id::text = current_setting('request.headers', true)::json->>'x-checkpoint-id')
+  WITH CHECK (user_id IS NULL AND id::text = current_setting('request.headers', true)::json->>'x-checkpoint-id');
+
+CREATE INDEX IF NOT EXISTS idx_run_checkpoints_user_id ON run_checkpoints(user_id, updated_at DESC);
@@ -0,0 +1,94 @@
+/*
+  # Analysis templates and the shared prompt library
+
+  1. New Tables
+    - `analysis_templates`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users, nullable for anonymous templates)
+      - `name` (text, not null)
+      - `config` (jsonb, not null) - a setup form configuration, without API keys
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+    - `library_prompts`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users, nullable for anonymous contributors)
+      - `text` (text, not null)
+      - `tags` (text[], not null) - e.g. an industry or a funnel stage
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on both tables
+    - Templates have the same ownership rules as `reports`
+    - Library prompts are shared: everyone can read and add them, and only the
+      signed-in contributor can change or delete them. Anonymous contributions
+      have no owner, so they can't be changed or deleted
+*/
+
+CREATE TABLE IF NOT EXISTS analysis_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  config jsonb NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE analysis_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own templates"
+  ON analysis_templates
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Anonymous users can manage anonymous templates"
+  ON analysis_templates
+  FOR ALL
+  TO anon
+  USING (user_id IS NULL)
+  WITH CHECK (user_id IS NULL);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_templates_user_id ON analysis_templates(user_id, name);
+
+CREATE TABLE IF NOT EXISTS library_prompts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  text text NOT NULL,
+  tags text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE library_prompts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can read library prompts"
+  ON library_prompts
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Users can add library prompts"
+  ON library_prompts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Anonymous users can add library prompts"
+  ON library_prompts
+  FOR INSERT
+  TO anon
+  WITH CHECK (user_id IS NULL);
+
+CREATE POLICY "Users can manage own library prompts"
+  ON library_prompts
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own library prompts"
+  ON library_prompts
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_library_prompts_tags ON library_prompts USING gin(tags);
\ No newline at end of file
@@ -1,6 +1,4 @@
-import type { GoogleGenAI } from "@google/genai";
-
-export type Provider = 'gemini' | 'openai' | 'perplexity' | 'copilot';
+export type Provider = 'gemini' | 'openai' | 'perplexity' | 'copilot' | 'claude' | 'custom';
 
 export interface ApiKeys {
   gemini?: string;
@@ -8,67 +6,360 @@ export interface ApiKeys {
   perplexity?: string;
   copilotKey?: string;
   copilotEndpoint?: string;
+  claude?: string;
+  customBaseUrl?: string;
+  customKey?: string;
+}
+
+// Other names a tracked brand goes by. All of them are reported and counted as the brand itself.
+export interface BrandVariants {
+  brandName: string;
+  aliases: string[];
+  domains: string[];
+  products: string[];
 }
 
 export interface AppConfig {
   providers: Provider[];
   apiKeys: ApiKeys;
-  models: Partial<Record<Provider, string>>;
+  // One or more models per selected provider. Each provider+model pair is analyzed separately.
+  models: Partial<Record<Provider, string[]>>;
   clientName: string;
   competitors: string[];
+  // Only brands with at least one variant are listed. Absent in reports saved before variants existed.
+  brandVariants?: BrandVariants[];
   prompts: string[];
+  // Extra information about each prompt, in the order of `prompts`, so the same prompt can be
+  // asked in several markets. Reports saved before that hold a record keyed by prompt text;
+  // read either with getPromptDetails.
+  promptDetails?: PromptDetails[] | Record<string, PromptDetails>;
   additionalQuestions: string[];
+  // How many times each prompt is sent to each provider+model. Absent in reports saved before sampling existed, meaning 1.
+  samplesPerPrompt?: number;
+  // Overrides of each provider's default request limits.
+  rateLimits?: Partial<Record<Provider, RateLimit>>;
+  // Also back up run checkpoints to Supabase, so a run too large for local storage can still be resumed.
+  cloudCheckpoints?: boolean;
+  // Prices per provider+model, keyed by AnalysisTarget.key. Models without one use the defaults.
+  modelPrices?: Record<string, ModelPrice>;
+  // The provider+model that analyzes every response and answers the additional questions, so all
+  // columns are graded the same way. Absent in reports saved before judges existed, where each model graded its own answers.
+  judge?: { provider: Provider; model: string };
+  // How the prompts were drafted, when the prompt generator was used.
+  promptGenerator?: PromptGeneratorSettings;
+  // Tokens used while setting up the run, so they count towards its cost.
+  setupUsage?: SetupUsage[];
+}
+
+export interface PromptGeneratorSettings {
+  provider: Provider;
+  model: string;
+  category: string; // the client's product category, e.g. "digital asset management"
+  personas: string[]; // e.g. "marketing manager at a retail chain"
+  count: number; // prompts asked for; fewer may be returned
+}
+
+export type FunnelStage = 'awareness' | 'consideration' | 'decision';
+
+export interface PromptDetails {
+  category?: string; // e.g. "comparison" or "pricing"
+  funnelStage?: FunnelStage;
+  locale?: string; // e.g. "de-DE", for prompts written for one market
+}
+
+// USD per million tokens.
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface RateLimit {
+  concurrency: number; // requests in flight at once
+  requestsPerMinute: number;
 }
 
 export interface BrandAnalysis {
   brandName: string;
   mentions: number;
   sentiment: 'Positive' | 'Neutral' | 'Negative' | 'Not Mentioned';
+  // Prominence. Optional because reports saved before it was captured lack it.
+  firstMentionRank?: number | null; // 1 = the first brand mentioned in the response
+  listRank?: number | null; // position in a ranked or bulleted list, null if not in one
+  recommended?: boolean; // explicitly recommended as the best choice
+  // Sentiment detail. Optional because reports saved before it was captured lack it.
+  sentimentScore?: number | null; // -1 (very negative) to 1 (very positive), null if not mentioned
+  sentimentRationale?: string;
+  sentimentQuotes?: string[]; // sentences copied from the response that justify the score
 }
 
 export interface AdditionalQuestionAnswer {
   question: string;
   answer: string;
+  error?: string;
+}
+
+// A provider+model pair: one column in every comparative view.
+export interface AnalysisTarget {
+  key: string; // `${provider}:${model}`
+  provider: Provider;
+  model: string;
 }
 
+export interface Citation {
+    url: string;
+    domain: string; // hostname without "www."
+    source: 'api' | 'text'; // returned in the provider's citation fields, or linked in the response text
+}
+
+// Tokens spent on each kind of call made for one response. `questions` sums all additional questions.
+export type UsageCallType = 'answer' | 'analysis' | 'questions';
+// Calls made before a run, to draft or translate its prompts.
+export type SetupCallType = 'generation' | 'translation';
+export type ResponseUsage = Partial<Record<UsageCallType, TokenUsage>>;
+
 export interface ProviderResponse {
     provider: Provider;
+    model: string;
     response: string;
     brandAnalyses: BrandAnalysis[];
     additionalAnswers: AdditionalQuestionAnswer[];
+    citations?: Citation[]; // optional because reports saved before citations were captured lack it
+    sample?: number; // 0-based repetition of the prompt, absent in reports saved before sampling existed
+    usage?: ResponseUsage;
+    // Why the brand analysis is incomplete, when the judge's JSON still failed validation after a repair attempt.
+    analysisWarning?: string;
     error?: string;
 }
 
 export interface AnalysisResult {
   prompt: string;
+  // Position of the prompt in the run's prompts. Absent in reports saved before the same prompt
+  // could be asked in several markets; read it with getResultPromptIndex.
+  promptIndex?: number;
   providerResponses: ProviderResponse[];
 }
 
+export interface SentimentCounts {
+  P: number;
+  N: number;
+  Nl: number;
+}
+
+// Per-target values below are keyed by AnalysisTarget.key.
+export interface BrandMentionData {
+  brandName: string;
+  mentions: Record<string, number>; // as reported by the LLM brand analysis
+  localMentions: Record<string, number>; // counted by text matching over the responses
+}
+
+// One scored brand analysis behind an average sentiment score.
+export interface SentimentEvidence {
+  prompt: string;
+  sample: number;
+  score: number;
+  rationale: string;
+  quotes: string[];
+}
+
+export interface BrandSentimentData {
+  brandName: string;
+  sentiments: Record<string, SentimentCounts>;
+  averageScores: Record<string, number>; // mean sentimentScore, only for targets with scored analyses
+  evidence: Record<string, SentimentEvidence[]>;
+}
+
+export interface BrandVisibilityData {
+  brandName: string;
+  scores: Record<string, number>; // weighted visibility score, 0-100
+  overallScore: number;
+  avgFirstMentionRank: number | null;
+  avgListRank: number | null;
+  recommendedCount: number;
+}
+
+// Share of responses that mention a brand, with a 95% confidence interval.
+export interface MentionRate {
+  responses: number;
+  mentioned: number;
+  rate: number;
+  low: number;
+  high: number;
+  meanMentions: number; // mentions per response
+  stdDevMentions: number;
+}
+
+export interface BrandMentionRateData {
+  brandName: string;
+  rates: Record<string, MentionRate>;
+}
+
+// A brand's standing against the other tracked brands.
+export interface CompetitiveMetrics {
+  shareOfVoice: number; // the brand's mentions / mentions of all tracked brands, 0-1
+  promptCoverage: number; // share of prompts where at least one response mentions the brand, 0-1
+  averageRank: number | null; // mean order of first mention, over the responses that mention it
+}
+
+export interface BrandLeaderboardData {
+  brandName: string;
+  byTarget: Record<string, CompetitiveMetrics>;
+  overall: CompetitiveMetrics;
+}
+
+export interface LocaleMetrics extends CompetitiveMetrics {
+  averageSentiment: number | null; // mean sentiment score, -1 to 1
+}
+
+// One tracked brand's standing in each locale of a run, keyed by locale.
+export interface BrandLocaleData {
+  brandName: string;
+  byLocale: Record<string, LocaleMetrics>;
+}
+
+export interface CitedDomainData {
+  domain: string;
+  citations: Record<string, number>; // responses citing the domain
+  total: number;
+  isClientDomain: boolean;
+}
+
+// Client-level metrics over the prompts of one category.
+export interface CategoryBreakdownData {
+  category: string;
+  prompts: number;
+  clientMentions: number; // per sample, summed over all provider+models
+  shareOfVoice: number; // 0-1
+  promptCoverage: number; // 0-1
+  averageSentiment: number | null; // mean sentiment score, -1 to 1
+  leader: string | null; // tracked brand with the highest share of voice
+}
+
+// Client-level metrics for one provider+model in one run.
+export interface ProviderMetrics {
+  clientMentions: number; // per sample, so runs with different sample counts compare
+  shareOfVoice: number; // client mentions / mentions of all tracked brands, 0-1
+  netSentiment: number | null; // (positive - negative) / rated responses, -1 to 1
+}
+
 export interface SentimentData {
   name: string;
-  [key: string]: number | string; // e.g., Positive-gemini: 5
+  [key: string]: number | string; // e.g., Positive-gemini:gemini-2.5-flash: 5
+}
+
+// A credential input rendered in the setup form and checked before a run starts.
+export interface CredentialField {
+    key: keyof ApiKeys;
+    label: string;
+    description: string;
+    placeholder: string;
+    secret?: boolean;
+    optional?: boolean;
+}
+
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface SetupUsage {
+    provider: Provider;
+    model: string;
+    callType: SetupCallType;
+    usage: TokenUsage;
+}
+
+// A plain-text completion and the source URLs the provider's API says it cited.
+export interface Completion {
+    text: string;
+    citations: string[];
+    usage?: TokenUsage; // absent when the API doesn't report it
 }
 
-// Add a new interface for the analysis service clients
-export interface LlmClients {
-    gemini: GoogleGenAI | null;
-    openai: string | undefined;
-    perplexity: string | undefined;
-    copilot: { key: string; endpoint: string } | undefined;
+// The raw reply to a JSON request. Models don't always return clean JSON, so it is parsed and
+// validated by the caller.
+export interface JsonCompletion {
+    text: string;
+    usage?: TokenUsage;
+}
+
+// Everything the app needs to know about an LLM provider. Adapters are registered in services/providers.
+export interface ProviderAdapter {
+    id: Provider;
+    name: string;
+    shortName: string;
+    credentialFields: CredentialField[];
+    // Suggested models. When empty the model name is entered as free text.
+    models: string[];
+    defaultModel: string;
+    modelField: { label: string; description: string; placeholder?: string };
+    chartColors: { series: string; positive: string; neutral: string; negative: string };
+    // Conservative defaults. Accounts on higher tiers can raise them in the setup form.
+    rateLimit: RateLimit;
+    complete(apiKeys: ApiKeys, model: string, prompt: string, signal?: AbortSignal): Promise<Completion>;
+    // Asks for a JSON response using the provider's JSON mode where available.
+    completeJson(apiKeys: ApiKeys, model: string, prompt: string, signal?: AbortSignal): Promise<JsonCompletion>;
+}
+
+// The configuration persisted with a saved report. API keys are never stored.
+export type ReportConfig = Omit<AppConfig, 'apiKeys'>;
+
+export interface ReportData {
+  schemaVersion: number;
+  config: ReportConfig;
+  results: AnalysisResult[];
+}
+
+// A run in progress, saved after every response so it can be resumed after a reload.
+export interface RunCheckpoint {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  config: ReportConfig;
+  responses: Record<string, ProviderResponse>; // keyed by Task.id
+}
+
+// A named setup form configuration, for re-running the same kind of analysis.
+export interface AnalysisTemplate {
+  id: string;
+  name: string;
+  config: ReportConfig;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A prompt in the library shared by all users.
+export interface LibraryPrompt {
+  id: string;
+  text: string;
+  tags: string[]; // e.g. an industry or a funnel stage
+  createdAt: string;
 }
 
 export interface SavedReport {
   id: string;
   createdAt: string;
+  updatedAt: string;
   clientName: string;
   htmlContent: string;
   shareToken: string;
   userId?: string | null;
+  // Runs of the same client, competitors and prompts share a project key.
+  projectKey: string | null;
+  // Structured data for re-rendering the dashboard. Null for reports saved before it was stored.
+  data: ReportData | null;
 }
 
 export interface Task {
   id: string;
   description: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'error';
+  status: 'pending' | 'in_progress' | 'completed' | 'error' | 'cancelled';
   error?: string;
+  retry?: RetryState; // set while the task waits to retry a failed request
+}
+
+export interface RetryState {
+  attempt: number; // the attempt about to be made, starting at 2
+  maxAttempts: number;
+  delayMs: number;
+  reason: string;
 }
\ No newline at end of file
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import type { AnalysisResult, BrandAnalysis, ProviderResponse, ReportConfig } from '../types';
+import {
+    NO_LOCALE, UNCATEGORIZED, aggregateBrandMentions, aggregateCategoryBreakdown, aggregateLeaderboard, aggregateLocaleComparison,
+    aggregateMentionRates, filterByCategory, filterByLocale, getPromptCategories, getPromptLocales, getResultPromptIndex,
+} from './aggregation';
+import { wilsonInterval } from './statistics';
+
+const A = 'gemini:model-a';
+const B = 'gemini:model-b';
+
+// The same prompt is asked in two markets, and a third prompt has no details.
+const CONFIG: ReportConfig = {
+    providers: ['gemini'],
+    models: { gemini: ['model-a', 'model-b'] },
+    clientName: 'Acme',
+    competitors: ['Globex'],
+    brandVariants: [{ brandName: 'Acme', aliases: ['Acme Corp'], domains: [], products: [] }],
+    prompts: ['Best tool?', 'Best tool?', 'Cheap tool?'],
+    promptDetails: [{ category: 'comparison', locale: 'en-US' }, { category: 'comparison', locale: 'en-GB' }, {}],
+    additionalQuestions: [],
+};
+
+const mentioned = (brandName: string, mentions: number, firstMentionRank: number, sentimentScore: number): BrandAnalysis => ({
+    brandName,
+    mentions,
+    sentiment: sentimentScore > 0 ? 'Positive' : sentimentScore < 0 ? 'Negative' : 'Neutral',
+    firstMentionRank,
+    sentimentScore,
+});
+
+const notMentioned = (brandName: string): BrandAnalysis => ({ brandName, mentions: 0, sentiment: 'Not Mentioned', sentimentScore: null });
+
+const response = (model: string, brandAnalyses: BrandAnalysis[], error?: string): ProviderResponse => ({
+    provider: 'gemini', model, response: '', brandAnalyses, additionalAnswers: [], ...(error && { error }),
+});
+
+const RESULTS: AnalysisResult[] = [
+    {
+        prompt: 'Best tool?',
+        promptIndex: 0,
+        providerResponses: [
+            response('model-a', [mentioned('Acme', 2, 1, 0.5), mentioned('Globex', 1, 2, 0)]),
+            response('model-b', [], 'Rate limited'),
+        ],
+    },
+    {
+        prompt: 'Best tool?',
+        promptIndex: 1,
+        providerResponses: [
+            response('model-a', [notMentioned('Acme'), mentioned('Globex', 3, 1, -0.5)]),
+            response('model-b', [mentioned('Acme', 1, 1, 1), notMentioned('Globex')]),
+        ],
+    },
+    {
+        prompt: 'Cheap tool?',
+        promptIndex: 2,
+        // Reported under an alias, which counts for the brand.
+        providerResponses: [response('model-a', [mentioned('Acme Corp', 1, 2, 0), mentioned('Globex', 1, 1, 0.5)])],
+    },
+];
+
+describe('prompt categories and locales', () => {
+    it('are listed in prompt order, with prompts without one last', () => {
+        expect(getPromptCategories(CONFIG)).toEqual(['comparison', UNCATEGORIZED]);
+        expect(getPromptLocales(CONFIG)).toEqual(['en-US', 'en-GB', NO_LOCALE]);
+    });
+
+    it('narrow results to their prompts, renumbering them', () => {
+        const uncategorized = filterByCategory(RESULTS, CONFIG, UNCATEGORIZED);
+        expect(uncategorized.config.prompts).toEqual(['Cheap tool?']);
+        expect(uncategorized.config.promptDetails).toEqual([{}]);
+        expect(uncategorized.results).toEqual([{ ...RESULTS[2], promptIndex: 0 }]);
+
+        const { results, config } = filterByLocale(RESULTS, CONFIG, 'en-GB');
+        expect(config.prompts).toEqual(['Best tool?']);
+        expect(config.promptDetails).toEqual([{ category: 'comparison', locale: 'en-GB' }]);
+        expect(results).toEqual([{ ...RESULTS[1], promptIndex: 0 }]);
+    });
+
+    it('are read from reports that keyed details by prompt text', () => {
+        const legacyConfig = { ...CONFIG, prompts: ['Best tool?', 'Cheap tool?'], promptDetails: { 'Cheap tool?': { category: 'pricing' } } };
+        const legacyResults = [RESULTS[0], RESULTS[2]].map(({ prompt, providerResponses }) => ({ prompt, providerResponses }));
+
+        expect(getResultPromptIndex(legacyResults[1], legacyConfig)).toBe(1);
+        expect(getPromptCategories(legacyConfig)).toEqual(['pricing', UNCATEGORIZED]);
+        const { results, config } = filterByCategory(legacyResults, legacyConfig, 'pricing');
+        expect(config.prompts).toEqual(['Cheap tool?']);
+        expect(results.map(r => r.prompt)).toEqual(['Cheap tool?']);
+    });
+});
+
+describe('aggregateBrandMentions', () => {
+    it('sums mentions per model, most mentioned first', () => {
+        const mentions = aggregateBrandMentions(RESULTS, CONFIG);
+        expect(mentions.map(m => [m.brandName, m.mentions])).toEqual([
+            ['Globex', { [A]: 5, [B]: 0 }],
+            ['Acme', { [A]: 3, [B]: 1 }],
+        ]);
+    });
+});
+
+describe('aggregateMentionRates', () => {
+    it('counts the share of successful responses that mention each brand', () => {
+        const acme = aggregateMentionRates(RESULTS, CONFIG).find(r => r.brandName === 'Acme')!;
+        expect(acme.rates[A]).toMatchObject({ responses: 3, mentioned: 2, rate: 2 / 3, meanMentions: 1, ...wilsonInterval(2, 3) });
+        expect(acme.rates[B]).toMatchObject({ responses: 1, mentioned: 1, rate: 1 });
+    });
+});
+
+describe('aggregateLeaderboard', () => {
+    it('ranks brands by share of voice, counting a prompt asked in two markets twice', () => {
+        const [globex, acme] = aggregateLeaderboard(RESULTS, CONFIG);
+        expect(globex.brandName).toBe('Globex');
+        expect(globex.overall).toEqual({ shareOfVoice: 5 / 9, promptCoverage: 1, averageRank: 4 / 3 });
+        expect(acme.overall).toEqual({ shareOfVoice: 4 / 9, promptCoverage: 1, averageRank: 4 / 3 });
+        // Model A mentions Acme in one of the two markets of the shared prompt.
+        expect(acme.byTarget[A].promptCoverage).toBe(2 / 3);
+    });
+
+    it('leaves failed responses out of each model', () => {
+        const [globex, acme] = aggregateLeaderboard(RESULTS, CONFIG);
+        expect(acme.byTarget[B]).toEqual({ shareOfVoice: 1, promptCoverage: 1, averageRank: 1 });
+        expect(globex.byTarget[B]).toEqual({ shareOfVoice: 0, promptCoverage: 0, averageRank: null });
+    });
+});
+
+describe('aggregateCategoryBreakdown', () => {
+    it('summarizes the client in each category', () => {
+        expect(aggregateCategoryBreakdown(RESULTS, CONFIG)).toEqual([
+            { category: 'comparison', prompts: 2, clientMentions: 3, shareOfVoice: 3 / 7, promptCoverage: 1, averageSentiment: 0.75, leader: 'Globex' },
+            { category: UNCATEGORIZED, prompts: 1, clientMentions: 1, shareOfVoice: 0.5, promptCoverage: 1, averageSentiment: 0, leader: 'Acme' },
+        ]);
+    });
+});
+
+describe('aggregateLocaleComparison', () => {
+    it('compares every brand across locales, in overall leaderboard order', () => {
+        const [globex, acme] = aggregateLocaleComparison(RESULTS, CONFIG);
+        expect(globex.brandName).toBe('Globex');
+        expect(Object.keys(acme.byLocale)).toEqual(['en-US', 'en-GB', NO_LOCALE]);
+        expect(acme.byLocale['en-GB']).toEqual({ shareOfVoice: 0.25, promptCoverage: 1, averageRank: 1, averageSentiment: 1 });
+        expect(globex.byLocale['en-GB']).toEqual({ shareOfVoice: 0.75, promptCoverage: 1, averageRank: 1, averageSentiment: -0.5 });
+    });
+});
\ No newline at end of file
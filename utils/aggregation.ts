@@ -0,0 +1,501 @@
+import type { AnalysisResult, AnalysisTarget, BrandAnalysis, BrandLeaderboardData, BrandLocaleData, BrandMentionData, CategoryBreakdownData, CompetitiveMetrics, FunnelStage, BrandMentionRateData, CitedDomainData, BrandVisibilityData, BrandSentimentData, PromptDetails, ProviderMetrics, ProviderResponse, ReportConfig, SentimentCounts, SentimentData } from '../types';
+import { getAnalysisTargets, getTargetKey } from '../services/providers';
+import { countMentions } from './mentionCounter';
+import { consolidateBrandAnalyses, getBrandDomains, getBrandTerms } from './brandVariants';
+import { mean, standardDeviation, wilsonInterval } from './statistics';
+
+const emptySentimentCounts = (): SentimentCounts => ({ P: 0, N: 0, Nl: 0 });
+
+export function getSamplesPerPrompt(config: ReportConfig): number {
+    return config.samplesPerPrompt || 1;
+}
+
+// How many responses a complete run produces, and how many these results hold. They differ
+// when the run was cancelled part-way.
+export function getResponseCoverage(results: AnalysisResult[], config: ReportConfig): { collected: number, expected: number } {
+    return {
+        collected: results.reduce((sum, r) => sum + r.providerResponses.length, 0),
+        expected: config.prompts.length * getAnalysisTargets(config).length * getSamplesPerPrompt(config),
+    };
+}
+
+// All samples of a prompt from one provider+model, in sample order.
+export function findTargetResponses(result: AnalysisResult, target: AnalysisTarget): ProviderResponse[] {
+    return result.providerResponses
+        .filter(pr => getTargetKey(pr.provider, pr.model) === target.key)
+        .sort((a, b) => (a.sample ?? 0) - (b.sample ?? 0));
+}
+
+export const UNCATEGORIZED = 'Uncategorized';
+
+export const FUNNEL_STAGES: FunnelStage[] = ['awareness', 'consideration', 'decision'];
+
+// Details of the prompt at `index` of the run's prompts; empty when it has none.
+export function getPromptDetails(index: number, config: Pick<ReportConfig, 'prompts' | 'promptDetails'>): PromptDetails {
+    const details = config.promptDetails;
+    if (Array.isArray(details)) return details[index] ?? {};
+    return details?.[config.prompts[index]] ?? {};
+}
+
+// Where a result's prompt is in the run's prompts. Reports saved before results recorded it
+// couldn't hold the same prompt twice, so its text finds it there.
+export function getResultPromptIndex(result: AnalysisResult, config: ReportConfig): number {
+    return result.promptIndex ?? config.prompts.indexOf(result.prompt);
+}
+
+export function getPromptCategory(index: number, config: ReportConfig): string {
+    return getPromptDetails(index, config).category || UNCATEGORIZED;
+}
+
+// Distinct categories in prompt order, with uncategorized prompts last.
+export function getPromptCategories(config: ReportConfig): string[] {
+    const categories = Array.from(new Set(config.prompts.map((_, i) => getPromptCategory(i, config))));
+    return [...categories.filter(c => c !== UNCATEGORIZED), ...categories.filter(c => c === UNCATEGORIZED)];
+}
+
+// The results and configuration narrowed to the prompts `include` accepts, by their position in
+// the run's prompts, so every aggregate can be computed for them as if the run had only asked
+// those. Prompt positions are renumbered to match.
+export function filterByPrompt<C extends ReportConfig>(results: AnalysisResult[], config: C, include: (index: number) => boolean): { results: AnalysisResult[], config: C } {
+    const kept = config.prompts.map((_, i) => i).filter(include);
+    const newIndex = new Map(kept.map((index, i) => [index, i]));
+    return {
+        results: results.flatMap(r => {
+            const index = newIndex.get(getResultPromptIndex(r, config));
+            return index === undefined ? [] : [{ ...r, promptIndex: index }];
+        }),
+        config: { ...config, prompts: kept.map(i => config.prompts[i]), promptDetails: kept.map(i => getPromptDetails(i, config)) },
+    };
+}
+
+export function filterByCategory<C extends ReportConfig>(results: AnalysisResult[], config: C, category: string): { results: AnalysisResult[], config: C } {
+    return filterByPrompt(results, config, index => getPromptCategory(index, config) === category);
+}
+
+export const NO_LOCALE = 'Unspecified';
+
+export function getPromptLocale(index: number, config: ReportConfig): string {
+    return getPromptDetails(index, config).locale || NO_LOCALE;
+}
+
+// Distinct locales in prompt order, with prompts without one last.
+export function getPromptLocales(config: ReportConfig): string[] {
+    const locales = Array.from(new Set(config.prompts.map((_, i) => getPromptLocale(i, config))));
+    return [...locales.filter(l => l !== NO_LOCALE), ...locales.filter(l => l === NO_LOCALE)];
+}
+
+export function filterByLocale<C extends ReportConfig>(results: AnalysisResult[], config: C, locale: string): { results: AnalysisResult[], config: C } {
+    return filterByPrompt(results, config, index => getPromptLocale(index, config) === locale);
+}
+
+export function getTrackedBrands(config: ReportConfig): string[] {
+    return [config.clientName, ...config.competitors];
+}
+
+// Deterministic mention count of a brand in a single response.
+export function countLocalMentions(response: ProviderResponse, brandName: string, config: ReportConfig): number {
+    return response.error ? 0 : countMentions(response.response, getBrandTerms(brandName, config));
+}
+
+// Brand mentions summed per provider+model, most mentioned first. Tracked brands are always included.
+export function aggregateBrandMentions(results: AnalysisResult[], config: ReportConfig): BrandMentionData[] {
+    const mentionsMap = new Map<string, BrandMentionData>();
+
+    results.forEach(result => {
+        result.providerResponses.forEach(pResponse => {
+            const targetKey = getTargetKey(pResponse.provider, pResponse.model);
+            consolidateBrandAnalyses(pResponse.brandAnalyses, config).forEach(analysis => {
+                if (typeof analysis.brandName === 'string') {
+                    const lowerCaseBrand = analysis.brandName.toLowerCase();
+                    if (!mentionsMap.has(lowerCaseBrand)) {
+                        mentionsMap.set(lowerCaseBrand, { brandName: analysis.brandName, mentions: {}, localMentions: {} });
+                    }
+                    const entry = mentionsMap.get(lowerCaseBrand)!;
+                    entry.mentions[targetKey] = (entry.mentions[targetKey] || 0) + analysis.mentions;
+                }
+            });
+        });
+    });
+
+    getTrackedBrands(config).forEach(brand => {
+        const lowerCaseBrand = brand.toLowerCase();
+        if (!mentionsMap.has(lowerCaseBrand)) {
+            mentionsMap.set(lowerCaseBrand, { brandName: brand, mentions: {}, localMentions: {} });
+        }
+    });
+
+    results.forEach(result => {
+        result.providerResponses.forEach(pResponse => {
+            const targetKey = getTargetKey(pResponse.provider, pResponse.model);
+            mentionsMap.forEach(entry => {
+                entry.localMentions[targetKey] = (entry.localMentions[targetKey] || 0) + countLocalMentions(pResponse, entry.brandName, config);
+            });
+        });
+    });
+
+    return Array.from(mentionsMap.values()).sort((a, b) => {
+        const totalA = Object.values(a.mentions).reduce((s, c) => s + c, 0);
+        const totalB = Object.values(b.mentions).reduce((s, c) => s + c, 0);
+        return totalB - totalA;
+    });
+}
+
+// Signed to two decimals, e.g. "+0.40".
+export const formatSentimentScore = (score: number): string => `${score > 0 ? '+' : ''}${score.toFixed(2)}`;
+
+// Positive/Neutral/Negative counts per brand and provider+model. 'Not Mentioned' analyses are skipped.
+export function aggregateSentiments(results: AnalysisResult[], config: ReportConfig): BrandSentimentData[] {
+    const sentimentMap = new Map<string, BrandSentimentData>();
+    const emptyEntry = (brandName: string): BrandSentimentData => ({ brandName, sentiments: {}, averageScores: {}, evidence: {} });
+
+    results.forEach(result => {
+        result.providerResponses.forEach(pResponse => {
+            const targetKey = getTargetKey(pResponse.provider, pResponse.model);
+            consolidateBrandAnalyses(pResponse.brandAnalyses, config).forEach(analysis => {
+                if (typeof analysis.brandName === 'string' && analysis.sentiment !== 'Not Mentioned') {
+                    const lowerCaseBrand = analysis.brandName.toLowerCase();
+                    if (!sentimentMap.has(lowerCaseBrand)) {
+                        sentimentMap.set(lowerCaseBrand, emptyEntry(analysis.brandName));
+                    }
+                    const entry = sentimentMap.get(lowerCaseBrand)!;
+                    const counts = entry.sentiments[targetKey] ??= emptySentimentCounts();
+                    if (analysis.sentiment === 'Positive') counts.P++;
+                    if (analysis.sentiment === 'Negative') counts.N++;
+                    if (analysis.sentiment === 'Neutral') counts.Nl++;
+                    if (typeof analysis.sentimentScore === 'number') {
+                        (entry.evidence[targetKey] ??= []).push({
+                            prompt: result.prompt,
+                            sample: pResponse.sample ?? 0,
+                            score: analysis.sentimentScore,
+                            rationale: analysis.sentimentRationale || '',
+                            quotes: analysis.sentimentQuotes || [],
+                        });
+                    }
+                }
+            });
+        });
+    });
+
+    getTrackedBrands(config).forEach(brand => {
+        const lowerCaseBrand = brand.toLowerCase();
+        if (!sentimentMap.has(lowerCaseBrand)) {
+            sentimentMap.set(lowerCaseBrand, emptyEntry(brand));
+        }
+    });
+
+    sentimentMap.forEach(entry => {
+        Object.entries(entry.evidence).forEach(([targetKey, evidence]) => {
+            entry.averageScores[targetKey] = mean(evidence.map(e => e.score));
+        });
+    });
+
+    return Array.from(sentimentMap.values());
+}
+
+// Chart rows for the tracked brands only, keyed as `Positive-<target key>`, `Neutral-<target key>`, ...
+export function buildSentimentChartData(sentiments: BrandSentimentData[], config: ReportConfig): SentimentData[] {
+    return getTrackedBrands(config).map(brand => {
+        const sentimentEntry = sentiments.find(s => s.brandName.toLowerCase() === brand.toLowerCase());
+        const dataPoint: SentimentData = { name: brand };
+
+        getAnalysisTargets(config).forEach(({ key }) => {
+            const counts = sentimentEntry?.sentiments[key] || emptySentimentCounts();
+            dataPoint[`Positive-${key}`] = counts.P;
+            dataPoint[`Neutral-${key}`] = counts.Nl;
+            dataPoint[`Negative-${key}`] = counts.N;
+        });
+        return dataPoint;
+    });
+}
+
+// How much each part of a mention contributes to the 0-100 visibility score.
+export const VISIBILITY_WEIGHTS = {
+    presence: 0.3, // any mention at all
+    position: 0.4, // scaled by 1 / rank: list position if listed, else order of first mention
+    recommended: 0.3, // explicitly recommended as the best choice
+};
+
+// Visibility of one brand in one response, 0-100. Analyses saved before prominence was
+// captured get half the position weight.
+export function scoreVisibility(analysis: BrandAnalysis): number {
+    if (analysis.mentions <= 0 || analysis.sentiment === 'Not Mentioned') return 0;
+    const rank = analysis.listRank || analysis.firstMentionRank;
+    const positionWeight = rank ? 1 / rank : 0.5;
+    return 100 * (VISIBILITY_WEIGHTS.presence + VISIBILITY_WEIGHTS.position * positionWeight + VISIBILITY_WEIGHTS.recommended * (analysis.recommended ? 1 : 0));
+}
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((s, v) => s + v, 0) / values.length : null;
+
+// Average visibility per brand and provider+model over all successful responses, best first.
+// A response that doesn't mention a brand counts as 0 for it.
+export function aggregateVisibility(results: AnalysisResult[], config: ReportConfig): BrandVisibilityData[] {
+    const responseCounts: Record<string, number> = {};
+    const brands = new Map<string, { brandName: string, totals: Record<string, number>, firstRanks: number[], listRanks: number[], recommendedCount: number }>();
+    const getBrand = (brandName: string) => {
+        const lowerCaseBrand = brandName.toLowerCase();
+        if (!brands.has(lowerCaseBrand)) {
+            brands.set(lowerCaseBrand, { brandName, totals: {}, firstRanks: [], listRanks: [], recommendedCount: 0 });
+        }
+        return brands.get(lowerCaseBrand)!;
+    };
+
+    getTrackedBrands(config).forEach(getBrand);
+
+    results.forEach(result => {
+        result.providerResponses.forEach(pResponse => {
+            if (pResponse.error) return;
+            const targetKey = getTargetKey(pResponse.provider, pResponse.model);
+            responseCounts[targetKey] = (responseCounts[targetKey] || 0) + 1;
+            consolidateBrandAnalyses(pResponse.brandAnalyses, config).forEach(analysis => {
+                const score = scoreVisibility(analysis);
+                if (score === 0) return;
+                const entry = getBrand(analysis.brandName);
+                entry.totals[targetKey] = (entry.totals[targetKey] || 0) + score;
+                if (analysis.firstMentionRank) entry.firstRanks.push(analysis.firstMentionRank);
+                if (analysis.listRank) entry.listRanks.push(analysis.listRank);
+                if (analysis.recommended) entry.recommendedCount++;
+            });
+        });
+    });
+
+    const targetKeys = getAnalysisTargets(config).map(t => t.key);
+    return Array.from(brands.values()).map(entry => {
+        const scores: Record<string, number> = {};
+        targetKeys.forEach(key => {
+            scores[key] = responseCounts[key] ? (entry.totals[key] || 0) / responseCounts[key] : 0;
+        });
+        return {
+            brandName: entry.brandName,
+            scores,
+            overallScore: average(targetKeys.map(key => scores[key])) ?? 0,
+            avgFirstMentionRank: average(entry.firstRanks),
+            avgListRank: average(entry.listRanks),
+            recommendedCount: entry.recommendedCount,
+        };
+    }).sort((a, b) => b.overallScore - a.overallScore);
+}
+
+// How consistently each brand is mentioned per provider+model, over every successful sample
+// of every prompt. Tracked brands are always included.
+export function aggregateMentionRates(results: AnalysisResult[], config: ReportConfig): BrandMentionRateData[] {
+    const mentionCounts = new Map<string, { brandName: string, counts: Record<string, number[]> }>();
+    const responseCounts: Record<string, number> = {};
+    getTrackedBrands(config).forEach(brandName => mentionCounts.set(brandName.toLowerCase(), { brandName, counts: {} }));
+
+    results.forEach(result => {
+        result.providerResponses.forEach(pResponse => {
+            if (pResponse.error) return;
+            const targetKey = getTargetKey(pResponse.provider, pResponse.model);
+            responseCounts[targetKey] = (responseCounts[targetKey] || 0) + 1;
+            consolidateBrandAnalyses(pResponse.brandAnalyses, config).forEach(analysis => {
+                if (analysis.mentions <= 0) return;
+                const lowerCaseBrand = analysis.brandName.toLowerCase();
+                if (!mentionCounts.has(lowerCaseBrand)) {
+                    mentionCounts.set(lowerCaseBrand, { brandName: analysis.brandName, counts: {} });
+                }
+                const entry = mentionCounts.get(lowerCaseBrand)!;
+                (entry.counts[targetKey] ||= []).push(analysis.mentions);
+            });
+        });
+    });
+
+    const targetKeys = getAnalysisTargets(config).map(t => t.key);
+    return Array.from(mentionCounts.values()).map(({ brandName, counts }) => {
+        const rates: BrandMentionRateData['rates'] = {};
+        targetKeys.forEach(key => {
+            const responses = responseCounts[key] || 0;
+            const mentioned = counts[key]?.length || 0;
+            // Responses without the brand count as zero mentions.
+            const perResponse = [...(counts[key] || []), ...Array(responses - mentioned).fill(0)];
+            rates[key] = {
+                responses,
+                mentioned,
+                rate: responses > 0 ? mentioned / responses : 0,
+                ...wilsonInterval(mentioned, responses),
+                meanMentions: mean(perResponse),
+                stdDevMentions: standardDeviation(perResponse),
+            };
+        });
+        return { brandName, rates };
+    }).sort((a, b) => mean(Object.values(b.rates).map(r => r.rate)) - mean(Object.values(a.rates).map(r => r.rate)));
+}
+
+// Share of voice, prompt coverage and average rank of each tracked brand, per provider+model
+// and over all of them, by descending overall share of voice. Only successful responses count.
+export function aggregateLeaderboard(results: AnalysisResult[], config: ReportConfig): BrandLeaderboardData[] {
+    const targetKeys = getAnalysisTargets(config).map(t => t.key);
+    const brands = getTrackedBrands(config);
+    const OVERALL = '';
+    const scopes = [...targetKeys, OVERALL];
+
+    // Per scope: all tracked mentions and answered prompts; per brand and scope: its mentions,
+    // the prompts mentioning it and its first-mention ranks.
+    const totalMentions: Record<string, number> = {};
+    // Prompts are counted by their result, since the same text may be asked in several markets.
+    const answeredPrompts: Record<string, Set<number>> = {};
+    const entries = new Map(brands.map(brand => [brand.toLowerCase(), { mentions: {} as Record<string, number>, prompts: {} as Record<string, Set<number>>, ranks: {} as Record<string, number[]> }]));
+
+    results.forEach((result, resultIndex) => {
+        result.providerResponses.forEach(pResponse => {
+            if (pResponse.error) return;
+            const responseScopes = [getTargetKey(pResponse.provider, pResponse.model), OVERALL];
+            responseScopes.forEach(scope => (answeredPrompts[scope] ??= new Set()).add(resultIndex));
+            consolidateBrandAnalyses(pResponse.brandAnalyses, config).forEach(analysis => {
+                const entry = entries.get(analysis.brandName.toLowerCase());
+                if (!entry || analysis.mentions <= 0 || analysis.sentiment === 'Not Mentioned') return;
+                responseScopes.forEach(scope => {
+                    totalMentions[scope] = (totalMentions[scope] || 0) + analysis.mentions;
+                    entry.mentions[scope] = (entry.mentions[scope] || 0) + analysis.mentions;
+                    (entry.prompts[scope] ??= new Set()).add(resultIndex);
+                    if (analysis.firstMentionRank) (entry.ranks[scope] ??= []).push(analysis.firstMentionRank);
+                });
+            });
+        });
+    });
+
+    return brands.map(brandName => {
+        const entry = entries.get(brandName.toLowerCase())!;
+        const metrics: Record<string, CompetitiveMetrics> = {};
+        scopes.forEach(scope => {
+            const answered = answeredPrompts[scope]?.size || 0;
+            metrics[scope] = {
+                shareOfVoice: totalMentions[scope] ? (entry.mentions[scope] || 0) / totalMentions[scope] : 0,
+                promptCoverage: answered ? (entry.prompts[scope]?.size || 0) / answered : 0,
+                averageRank: average(entry.ranks[scope] || []),
+            };
+        });
+        const { [OVERALL]: overall, ...byTarget } = metrics;
+        return { brandName, byTarget, overall };
+    }).sort((a, b) => b.overall.shareOfVoice - a.overall.shareOfVoice);
+}
+
+// Subdomains count as the brand's domain, so "blog.hubspot.com" is a hubspot.com citation.
+export function isClientDomain(domain: string, config: ReportConfig): boolean {
+    return getBrandDomains(config.clientName, config).some(d => domain === d || domain.endsWith(`.${d}`));
+}
+
+// Number of responses citing each domain per provider+model, most cited first.
+export function aggregateCitedDomains(results: AnalysisResult[], config: ReportConfig): CitedDomainData[] {
+    const domains = new Map<string, CitedDomainData>();
+
+    results.forEach(result => {
+        result.providerResponses.forEach(pResponse => {
+            const targetKey = getTargetKey(pResponse.provider, pResponse.model);
+            new Set((pResponse.citations || []).map(c => c.domain)).forEach(domain => {
+                if (!domains.has(domain)) {
+                    domains.set(domain, { domain, citations: {}, total: 0, isClientDomain: isClientDomain(domain, config) });
+                }
+                const entry = domains.get(domain)!;
+                entry.citations[targetKey] = (entry.citations[targetKey] || 0) + 1;
+                entry.total++;
+            });
+        });
+    });
+
+    return Array.from(domains.values()).sort((a, b) => b.total - a.total);
+}
+
+// Per provider+model, how many successful responses cite the client's own domain.
+export function getClientCitationsByTarget(results: AnalysisResult[], config: ReportConfig): Record<string, { cited: number, responses: number }> {
+    const byTarget: Record<string, { cited: number, responses: number }> = {};
+    getAnalysisTargets(config).forEach(t => { byTarget[t.key] = { cited: 0, responses: 0 }; });
+
+    results.forEach(result => {
+        result.providerResponses.forEach(pResponse => {
+            const entry = byTarget[getTargetKey(pResponse.provider, pResponse.model)];
+            if (!entry || pResponse.error) return;
+            entry.responses++;
+            if ((pResponse.citations || []).some(c => isClientDomain(c.domain, config))) entry.cited++;
+        });
+    });
+
+    return byTarget;
+}
+
+export function getClientMentionsByTarget(results: AnalysisResult[], config: ReportConfig): Record<string, number> {
+    const clientMentionsByTarget: Record<string, number> = {};
+
+    results.forEach(result => {
+        result.providerResponses.forEach(pResponse => {
+            const targetKey = getTargetKey(pResponse.provider, pResponse.model);
+            consolidateBrandAnalyses(pResponse.brandAnalyses, config).forEach(analysis => {
+                if (analysis.brandName.toLowerCase() === config.clientName.toLowerCase()) {
+                    clientMentionsByTarget[targetKey] = (clientMentionsByTarget[targetKey] || 0) + analysis.mentions;
+                }
+            });
+        });
+    });
+
+    return clientMentionsByTarget;
+}
+
+// Headline client metrics per provider+model, used to compare runs over time.
+export function computeTargetMetrics(results: AnalysisResult[], config: ReportConfig): Record<string, ProviderMetrics> {
+    const trackedLower = new Set(getTrackedBrands(config).map(b => b.toLowerCase()));
+    const clientLower = config.clientName.toLowerCase();
+    const mentions = aggregateBrandMentions(results, config);
+    const clientSentiments = aggregateSentiments(results, config).find(s => s.brandName.toLowerCase() === clientLower);
+    const samples = getSamplesPerPrompt(config);
+
+    const metrics: Record<string, ProviderMetrics> = {};
+    getAnalysisTargets(config).forEach(({ key }) => {
+        const clientMentions = mentions.find(m => m.brandName.toLowerCase() === clientLower)?.mentions[key] || 0;
+        const trackedMentions = mentions
+            .filter(m => trackedLower.has(m.brandName.toLowerCase()))
+            .reduce((sum, m) => sum + (m.mentions[key] || 0), 0);
+        const counts = clientSentiments?.sentiments[key] || emptySentimentCounts();
+        const rated = counts.P + counts.N + counts.Nl;
+
+        metrics[key] = {
+            clientMentions: clientMentions / samples,
+            shareOfVoice: trackedMentions > 0 ? clientMentions / trackedMentions : 0,
+            netSentiment: rated > 0 ? (counts.P - counts.N) / rated : null,
+        };
+    });
+    return metrics;
+}
+
+// A brand's sentiment score averaged over every response that mentions it, across all models.
+function averageSentimentScore(sentiments: BrandSentimentData[], brandName: string): number | null {
+    const brand = sentiments.find(s => s.brandName.toLowerCase() === brandName.toLowerCase());
+    return average(Object.values(brand?.evidence || {}).flat().map(e => e.score));
+}
+
+// The client's standing in each prompt category, in category order.
+export function aggregateCategoryBreakdown(results: AnalysisResult[], config: ReportConfig): CategoryBreakdownData[] {
+    const clientLower = config.clientName.toLowerCase();
+    return getPromptCategories(config).map(category => {
+        const filtered = filterByCategory(results, config, category);
+        const leaderboard = aggregateLeaderboard(filtered.results, filtered.config);
+        const client = leaderboard.find(b => b.brandName.toLowerCase() === clientLower);
+        const clientMentions = Object.values(getClientMentionsByTarget(filtered.results, filtered.config)).reduce((sum, count) => sum + count, 0);
+        return {
+            category,
+            prompts: filtered.config.prompts.length,
+            clientMentions: clientMentions / getSamplesPerPrompt(config),
+            shareOfVoice: client?.overall.shareOfVoice ?? 0,
+            promptCoverage: client?.overall.promptCoverage ?? 0,
+            averageSentiment: averageSentimentScore(aggregateSentiments(filtered.results, filtered.config), config.clientName),
+            leader: leaderboard[0]?.overall.shareOfVoice ? leaderboard[0].brandName : null,
+        };
+    });
+}
+
+// Every tracked brand's standing in each locale, in the order of the run's overall leaderboard.
+export function aggregateLocaleComparison(results: AnalysisResult[], config: ReportConfig): BrandLocaleData[] {
+    const locales = getPromptLocales(config).map(locale => {
+        const filtered = filterByLocale(results, config, locale);
+        return {
+            locale,
+            leaderboard: aggregateLeaderboard(filtered.results, filtered.config),
+            sentiments: aggregateSentiments(filtered.results, filtered.config),
+        };
+    });
+    return aggregateLeaderboard(results, config).map(({ brandName }) => ({
+        brandName,
+        byLocale: Object.fromEntries(locales.map(({ locale, leaderboard, sentiments }) => {
+            const metrics = leaderboard.find(b => b.brandName === brandName)?.overall ?? { shareOfVoice: 0, promptCoverage: 0, averageRank: null };
+            return [locale, { ...metrics, averageSentiment: averageSentimentScore(sentiments, brandName) }];
+        })),
+    }));
+}
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { extractJson, parseBrandAnalyses } from './analysisParser';
+
+const RESPONSE = 'HubSpot is the best CRM for small teams. Salesforce is powerful but expensive.';
+
+const analysis = (overrides: Record<string, unknown> = {}) => ({
+    brandName: 'HubSpot',
+    mentions: 1,
+    sentiment: 'Positive',
+    firstMentionRank: 1,
+    listRank: null,
+    recommended: true,
+    sentimentScore: 0.8,
+    rationale: 'Called the best CRM.',
+    quotes: ['HubSpot is the best CRM for small teams.'],
+    ...overrides,
+});
+
+describe('extractJson', () => {
+    it('reads JSON inside a code fence', () => {
+        expect(extractJson('Here you go:\n```json\n{"brands": []}\n```')).toEqual({ brands: [] });
+    });
+
+    it('ignores text before and after the object', () => {
+        expect(extractJson('Sure! {"a": [1, 2]} Hope that helps.')).toEqual({ a: [1, 2] });
+    });
+
+    it('skips braces and escaped quotes inside strings', () => {
+        expect(extractJson('{"text": "a } and \\" {"} trailing }')).toEqual({ text: 'a } and " {' });
+    });
+
+    it('reads a bare array', () => {
+        expect(extractJson('[{"a": 1}]')).toEqual([{ a: 1 }]);
+    });
+
+    it('rejects replies without JSON or with incomplete JSON', () => {
+        expect(() => extractJson('No brands were found.')).toThrow('contains no JSON');
+        expect(() => extractJson('{"brands": [')).toThrow('incomplete');
+    });
+});
+
+describe('parseBrandAnalyses', () => {
+    it('accepts a valid reply', () => {
+        const text = JSON.stringify({ brands: [analysis(), analysis({ brandName: 'Salesforce', sentiment: 'Neutral', sentimentScore: 0, recommended: false, quotes: [] })] });
+        const { brandAnalyses, problems } = parseBrandAnalyses(text, ['HubSpot', 'Salesforce'], RESPONSE);
+
+        expect(problems).toEqual([]);
+        expect(brandAnalyses[0]).toEqual({
+            brandName: 'HubSpot',
+            mentions: 1,
+            sentiment: 'Positive',
+            firstMentionRank: 1,
+            listRank: null,
+            recommended: true,
+            sentimentScore: 0.8,
+            sentimentRationale: 'Called the best CRM.',
+            sentimentQuotes: ['HubSpot is the best CRM for small teams.'],
+        });
+    });
+
+    it('normalizes sentiments, counts and scores', () => {
+        const text = JSON.stringify([
+            analysis({ sentiment: 'mixed', mentions: '2', sentimentScore: '1.5' }),
+            analysis({ brandName: 'Salesforce', mentions: 1, sentiment: 'Not Mentioned', sentimentScore: -0.2 }),
+        ]);
+        const { brandAnalyses } = parseBrandAnalyses(text, ['HubSpot', 'Salesforce'], RESPONSE);
+
+        expect(brandAnalyses[0]).toMatchObject({ sentiment: 'Neutral', mentions: 2, sentimentScore: 1 });
+        // The count is trusted over the label.
+        expect(brandAnalyses[1].sentiment).toBe('Neutral');
+    });
+
+    it('treats brands without mentions as not mentioned', () => {
+        const text = JSON.stringify([analysis({ mentions: 0, sentiment: 'Positive', firstMentionRank: 3, sentimentScore: 0.5 })]);
+        const [hubspot] = parseBrandAnalyses(text, ['HubSpot'], RESPONSE).brandAnalyses;
+
+        expect(hubspot).toMatchObject({ sentiment: 'Not Mentioned', firstMentionRank: null, sentimentScore: null, sentimentQuotes: [] });
+    });
+
+    it('drops quotes that are not in the response', () => {
+        const text = JSON.stringify([analysis({ quotes: ['HubSpot is  the best CRM for small teams.', 'HubSpot is cheap.'] })]);
+        const [hubspot] = parseBrandAnalyses(text, ['HubSpot'], RESPONSE).brandAnalyses;
+
+        expect(hubspot.sentimentQuotes).toEqual(['HubSpot is  the best CRM for small teams.']);
+    });
+
+    it('keeps a mentioned brand without a valid score, and reports it', () => {
+        const text = JSON.stringify([analysis({ sentimentScore: 'very' })]);
+        const { brandAnalyses, problems } = parseBrandAnalyses(text, ['HubSpot'], RESPONSE);
+
+        expect(brandAnalyses).toHaveLength(1);
+        expect(brandAnalyses[0].sentimentScore).toBeNull();
+        expect(problems).toEqual(['"HubSpot" has no valid "sentimentScore" between -1 and 1.']);
+    });
+
+    it('reports invalid entries and missing brands so they can be repaired', () => {
+        const text = JSON.stringify({ brands: [analysis({ sentiment: 'great' }), analysis({ brandName: '' }), analysis({ brandName: 'Pipedrive', mentions: -1 })] });
+        const { brandAnalyses, problems } = parseBrandAnalyses(text, ['HubSpot', 'Salesforce'], RESPONSE);
+
+        expect(brandAnalyses).toEqual([]);
+        expect(problems).toEqual([
+            `"HubSpot" has an unknown sentiment "great"; use 'Positive', 'Neutral' or 'Negative'.`,
+            'Brand 2 has no "brandName".',
+            '"Pipedrive" has no valid "mentions" count.',
+            'Missing brands from my list: HubSpot, Salesforce.',
+        ]);
+    });
+
+    it('reports replies that are not usable at all', () => {
+        expect(parseBrandAnalyses('{"brands": [1,]}', ['HubSpot'], RESPONSE).problems[0]).toMatch(/^The reply is not valid JSON/);
+        expect(parseBrandAnalyses('{"results": []}', ['HubSpot'], RESPONSE).problems).toEqual(['The reply has no "brands" array.']);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,137 @@
+import type { BrandAnalysis } from '../types';
+
+const CODE_FENCE = /```(?:json)?\s*([\s\S]*?)```/i;
+
+const SENTIMENTS: Record<string, BrandAnalysis['sentiment']> = {
+    'positive': 'Positive',
+    'neutral': 'Neutral',
+    'mixed': 'Neutral',
+    'negative': 'Negative',
+    'not mentioned': 'Not Mentioned',
+    'not_mentioned': 'Not Mentioned',
+    'none': 'Not Mentioned',
+    'n/a': 'Not Mentioned',
+};
+
+export interface ParsedBrandAnalysis {
+    brandAnalyses: BrandAnalysis[]; // the entries that passed validation
+    problems: string[]; // empty when the reply was fully valid
+}
+
+// The first complete JSON object or array in the text, ignoring code fences and anything
+// before or after it. Braces inside strings are skipped.
+export function extractJson(text: string): unknown {
+    const source = text.match(CODE_FENCE)?.[1] ?? text;
+    const start = source.search(/[{[]/);
+    if (start === -1) throw new Error('The reply contains no JSON object.');
+
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < source.length; i++) {
+        const char = source[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{' || char === '[') {
+            depth++;
+        } else if (char === '}' || char === ']') {
+            depth--;
+            if (depth === 0) return JSON.parse(source.slice(start, i + 1));
+        }
+    }
+    throw new Error('The JSON in the reply is incomplete.');
+}
+
+function toCount(value: unknown): number | null {
+    const n = typeof value === 'string' ? Number(value.trim()) : value;
+    return typeof n === 'number' && Number.isFinite(n) && n >= 0 ? Math.round(n) : null;
+}
+
+function toRank(value: unknown): number | null {
+    const n = toCount(value);
+    return n && n >= 1 ? n : null;
+}
+
+function toScore(value: unknown): number | null {
+    const n = typeof value === 'string' ? Number(value.trim()) : value;
+    return typeof n === 'number' && Number.isFinite(n) ? Math.min(1, Math.max(-1, n)) : null;
+}
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// Quotes the model paraphrased instead of copying are dropped, so every quote shown can be
+// found in the response.
+function toQuotes(value: unknown, responseText: string): string[] {
+    if (!Array.isArray(value)) return [];
+    const response = normalizeText(responseText);
+    return value
+        .filter((quote): quote is string => typeof quote === 'string' && quote.trim().length > 0)
+        .map(quote => quote.trim())
+        .filter(quote => response.includes(normalizeText(quote)));
+}
+
+// Validates an analysis reply of the form { "brands": [...] }, also accepting a bare array.
+// Sentiments are matched case-insensitively, and brands with no mentions are always
+// 'Not Mentioned'. Tracked brands missing from the reply are reported as problems.
+// `responseText` is the analyzed response, which sentiment quotes are checked against.
+export function parseBrandAnalyses(text: string, trackedBrands: string[], responseText: string): ParsedBrandAnalysis {
+    let data: unknown;
+    try {
+        data = extractJson(text);
+    } catch (e) {
+        return { brandAnalyses: [], problems: [e instanceof SyntaxError ? `The reply is not valid JSON: ${e.message}` : (e as Error).message] };
+    }
+
+    const items = Array.isArray(data) ? data : (data as { brands?: unknown } | null)?.brands;
+    if (!Array.isArray(items)) {
+        return { brandAnalyses: [], problems: ['The reply has no "brands" array.'] };
+    }
+
+    const problems: string[] = [];
+    const brandAnalyses: BrandAnalysis[] = [];
+    items.forEach((item, index) => {
+        const entry = item as Record<string, unknown> | null;
+        const brandName = typeof entry?.brandName === 'string' ? entry.brandName.trim() : '';
+        if (!brandName) {
+            problems.push(`Brand ${index + 1} has no "brandName".`);
+            return;
+        }
+        const mentions = toCount(entry!.mentions);
+        if (mentions === null) {
+            problems.push(`"${brandName}" has no valid "mentions" count.`);
+            return;
+        }
+        const sentiment = mentions === 0 ? 'Not Mentioned' : SENTIMENTS[String(entry!.sentiment ?? '').trim().toLowerCase()];
+        if (!sentiment) {
+            problems.push(`"${brandName}" has an unknown sentiment "${entry!.sentiment}"; use 'Positive', 'Neutral' or 'Negative'.`);
+            return;
+        }
+        // Kept without a score, so one missing score only leaves the brand out of sentiment averages.
+        const sentimentScore = mentions > 0 ? toScore(entry!.sentimentScore) : null;
+        if (mentions > 0 && sentimentScore === null) {
+            problems.push(`"${brandName}" has no valid "sentimentScore" between -1 and 1.`);
+        }
+        // A mentioned brand can't be 'Not Mentioned'; the count is more reliable than the label.
+        brandAnalyses.push({
+            brandName,
+            mentions,
+            sentiment: mentions > 0 && sentiment === 'Not Mentioned' ? 'Neutral' : sentiment,
+            firstMentionRank: mentions > 0 ? toRank(entry!.firstMentionRank) : null,
+            listRank: mentions > 0 ? toRank(entry!.listRank) : null,
+            recommended: entry!.recommended === true || entry!.recommended === 'true',
+            sentimentScore,
+            sentimentRationale: mentions > 0 && typeof entry!.rationale === 'string' ? entry!.rationale.trim() : '',
+            sentimentQuotes: mentions > 0 ? toQuotes(entry!.quotes, responseText) : [],
+        });
+    });
+
+    const reported = new Set(brandAnalyses.map(b => b.brandName.toLowerCase()));
+    const missing = trackedBrands.filter(brand => !reported.has(brand.toLowerCase()));
+    if (missing.length > 0) {
+        problems.push(`Missing brands from my list: ${missing.join(', ')}.`);
+    }
+
+    return { brandAnalyses, problems };
+}
\ No newline at end of file
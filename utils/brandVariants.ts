@@ -0,0 +1,76 @@
+import type { BrandAnalysis, BrandVariants, ReportConfig } from '../types';
+
+// Domains are compared without protocol, "www." or trailing path so that
+// "https://www.hubspot.com/" and "hubspot.com" resolve to the same brand.
+const normalizeName = (name: string) =>
+    name.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/.*$/, '');
+
+export function getBrandVariants(brandName: string, config: ReportConfig): BrandVariants | undefined {
+    const lowerCaseBrand = brandName.toLowerCase();
+    return config.brandVariants?.find(v => v.brandName.toLowerCase() === lowerCaseBrand);
+}
+
+// The brand name followed by all of its variants.
+export function getBrandTerms(brandName: string, config: ReportConfig): string[] {
+    const variants = getBrandVariants(brandName, config);
+    return variants ? [brandName, ...variants.aliases, ...variants.domains, ...variants.products] : [brandName];
+}
+
+// The brand's own domains, e.g. ["hubspot.com"].
+export function getBrandDomains(brandName: string, config: ReportConfig): string[] {
+    return (getBrandVariants(brandName, config)?.domains || []).map(normalizeName).filter(Boolean);
+}
+
+// Maps a brand name as written by an LLM to the tracked brand it is a variant of,
+// or returns it unchanged for brands that are not tracked.
+export function resolveBrandName(name: string, config: ReportConfig): string {
+    const normalized = normalizeName(name);
+    const trackedBrands = [config.clientName, ...config.competitors];
+    const match = trackedBrands.find(brand => getBrandTerms(brand, config).some(term => normalizeName(term) === normalized));
+    return match ?? name;
+}
+
+const minRank = (a?: number | null, b?: number | null) =>
+    a && b ? Math.min(a, b) : (a || b || null);
+
+// Merges analyses of the same brand under different names within one response. Mentions
+// are summed, the sentiment of the most-mentioned variant is kept and the most prominent
+// position wins.
+export function consolidateBrandAnalyses(analyses: BrandAnalysis[], config: ReportConfig): BrandAnalysis[] {
+    const merged = new Map<string, { analysis: BrandAnalysis, topMentions: number }>();
+
+    analyses.forEach(analysis => {
+        if (typeof analysis.brandName !== 'string') return;
+        const brandName = resolveBrandName(analysis.brandName, config);
+        const key = brandName.toLowerCase();
+        const existing = merged.get(key);
+        if (!existing) {
+            merged.set(key, { analysis: { ...analysis, brandName }, topMentions: analysis.mentions });
+            return;
+        }
+        existing.analysis.mentions += analysis.mentions;
+        existing.analysis.firstMentionRank = minRank(existing.analysis.firstMentionRank, analysis.firstMentionRank);
+        existing.analysis.listRank = minRank(existing.analysis.listRank, analysis.listRank);
+        existing.analysis.recommended = existing.analysis.recommended || analysis.recommended;
+        if (analysis.sentimentQuotes?.length) {
+            existing.analysis.sentimentQuotes = [...(existing.analysis.sentimentQuotes || []), ...analysis.sentimentQuotes];
+        }
+        const replacesSentiment = existing.analysis.sentiment === 'Not Mentioned' || analysis.mentions > existing.topMentions;
+        if (analysis.sentiment !== 'Not Mentioned' && replacesSentiment) {
+            existing.analysis.sentiment = analysis.sentiment;
+            existing.analysis.sentimentScore = analysis.sentimentScore ?? existing.analysis.sentimentScore;
+            existing.analysis.sentimentRationale = analysis.sentimentRationale;
+            existing.topMentions = analysis.mentions;
+        }
+    });
+
+    return Array.from(merged.values()).map(m => m.analysis);
+}
+
+// Brand list for analysis prompts, e.g. `HubSpot (also written as: HubSpot CRM, hubspot.com)`.
+export function describeTrackedBrands(config: ReportConfig): string {
+    return [config.clientName, ...config.competitors].map(brand => {
+        const variants = getBrandTerms(brand, config).slice(1);
+        return variants.length > 0 ? `${brand} (also written as: ${variants.join(', ')})` : brand;
+    }).join('; ');
+}
\ No newline at end of file
@@ -0,0 +1,33 @@
+import type { Citation } from '../types';
+
+// Markdown links, `[label](https://...)`, and bare URLs not already inside a link.
+const MARKDOWN_LINK = /\[[^\]]*\]\((https?:\/\/[^\s)]+)\)/g;
+const BARE_URL = /(?<!\]\()\bhttps?:\/\/[^\s<>"')\]]+/g;
+
+// Hostname without "www.", or null for anything that isn't a valid URL.
+export function getDomain(url: string): string | null {
+    try {
+        return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+    } catch {
+        return null;
+    }
+}
+
+export function extractLinks(text: string): string[] {
+    const links = [...text.matchAll(MARKDOWN_LINK)].map(m => m[1]);
+    const bare = [...text.matchAll(BARE_URL)].map(m => m[0].replace(/[.,;:!?]+$/, ''));
+    return [...links, ...bare];
+}
+
+// Combines the URLs a provider's API returned with those linked in the response text,
+// one entry per URL. A URL found in both is recorded as an API citation.
+export function buildCitations(apiCitations: string[], text: string): Citation[] {
+    const citations = new Map<string, Citation>();
+    const add = (url: string, source: Citation['source']) => {
+        const domain = getDomain(url);
+        if (domain && !citations.has(url)) citations.set(url, { url, domain, source });
+    };
+    apiCitations.forEach(url => add(url, 'api'));
+    extractLinks(text).forEach(url => add(url, 'text'));
+    return Array.from(citations.values());
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { getConfigFileFormat, parseConfigFile, serializeConfigFile, type ConfigFileContents } from './configFile';
+
+const CONTENTS: ConfigFileContents = {
+    clientName: 'HubSpot',
+    competitors: ['Salesforce', 'Pipedrive'],
+    brandVariants: [{ brandName: 'HubSpot', aliases: ['Hubspot CRM'], domains: ['hubspot.com'], products: ['Sales Hub', 'Service Hub'] }],
+    prompts: ['Best CRM for startups?', 'Best CRM for startups?', 'CRM with "free" tier, under $20'],
+    promptDetails: [
+        { category: 'comparison', funnelStage: 'consideration', locale: 'en-US' },
+        { category: 'comparison', funnelStage: 'consideration', locale: 'en-GB' },
+        {},
+    ],
+    additionalQuestions: ['Which pricing is mentioned?'],
+};
+
+describe('config files', () => {
+    it.each(['csv', 'json'] as const)('round-trip through %s', format => {
+        const { contents, errors } = parseConfigFile(serializeConfigFile(CONTENTS, format), format);
+        expect(errors).toEqual([]);
+        expect(contents).toEqual(CONTENTS);
+    });
+
+    it('write the prompt details of reports that keyed them by prompt text', () => {
+        const legacy = { ...CONTENTS, prompts: ['Best CRM for startups?'], promptDetails: { 'Best CRM for startups?': { category: 'comparison' } } };
+        const { contents } = parseConfigFile(serializeConfigFile(legacy, 'json'), 'json');
+        expect(contents?.promptDetails).toEqual([{ category: 'comparison' }]);
+    });
+
+    it('read CSV exported by spreadsheets', () => {
+        const csv = '\uFEFFType,Value,Locale\r\nclient,HubSpot,\r\nprompt,"Best CRM, honestly?",de-DE\r\n,,\r\n';
+        const { contents, errors } = parseConfigFile(csv, 'csv');
+        expect(errors).toEqual([]);
+        expect(contents).toMatchObject({ clientName: 'HubSpot', prompts: ['Best CRM, honestly?'], promptDetails: [{ locale: 'de-DE' }] });
+    });
+
+    it('read prompts and competitors given as plain strings in JSON', () => {
+        const { contents } = parseConfigFile(JSON.stringify({ client: 'HubSpot', competitors: ['Salesforce'], prompts: ['Best CRM?'] }), 'json');
+        expect(contents).toEqual({ clientName: 'HubSpot', competitors: ['Salesforce'], brandVariants: [], prompts: ['Best CRM?'], promptDetails: [{}], additionalQuestions: [] });
+    });
+
+    it('report every problem with its location', () => {
+        const csv = [
+            'type,value,category,funnelStage,locale,aliases,domains,products',
+            'client,HubSpot,,,,,,',
+            'competitor,hubspot,,,,,,',
+            'prompt,Best CRM?,,research,,,,',
+            'prompt,Best CRM?,,,,,,',
+            'question,Pricing?,pricing,,,,,',
+            'brand,Zoho,,,,,,',
+            'prompt,,,,,,,',
+            'question,Why?,,,,Hub,,',
+        ].join('\n');
+        const { contents, errors } = parseConfigFile(csv, 'csv');
+        expect(contents).toBeNull();
+        expect(errors).toEqual([
+            { location: 'Row 3', message: '"hubspot" appears more than once.' },
+            { location: 'Row 4', message: 'Unknown funnel stage "research"; use awareness, consideration, decision.' },
+            { location: 'Row 5', message: '"Best CRM?" appears more than once.' },
+            { location: 'Row 6', message: 'A category, funnel stage or locale only applies to prompts.' },
+            { location: 'Row 7', message: 'Unknown type "brand"; use client, competitor, prompt, question.' },
+            { location: 'Row 8', message: 'The prompt is empty.' },
+            { location: 'Row 9', message: 'Aliases, domains and products only apply to the client and competitors.' },
+        ]);
+    });
+
+    it('allow a prompt once per locale', () => {
+        const csv = 'type,value,locale\nclient,HubSpot,\nprompt,Best CRM?,en-US\nprompt,Best CRM?,en-GB\nprompt,best crm?,en-GB\n';
+        expect(parseConfigFile(csv, 'csv').errors).toEqual([{ location: 'Row 5', message: '"best crm?" appears more than once for en-GB.' }]);
+    });
+
+    it('require a client and prompts', () => {
+        expect(parseConfigFile('type,value\ncompetitor,Salesforce\n', 'csv').errors).toEqual([
+            { location: 'File', message: 'No client is defined.' },
+            { location: 'File', message: 'No prompts are defined.' },
+        ]);
+        expect(parseConfigFile('name,text\n', 'csv').errors[0].message).toMatch(/^The header must include the columns/);
+        expect(parseConfigFile('{"client": ', 'json').errors[0].message).toMatch(/^Not valid JSON/);
+    });
+
+    it('are recognized by extension', () => {
+        expect(getConfigFileFormat('brands.CSV')).toBe('csv');
+        expect(getConfigFileFormat('brands.json')).toBe('json');
+        expect(getConfigFileFormat('brands.xlsx')).toBeNull();
+    });
+});
\ No newline at end of file
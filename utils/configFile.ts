@@ -0,0 +1,304 @@
+import type { BrandVariants, FunnelStage, PromptDetails, ReportConfig } from '../types';
+import { FUNNEL_STAGES, getPromptDetails } from './aggregation';
+
+// The parts of a configuration kept in a config file: who is tracked and what is asked.
+// Run settings such as providers and models are not included.
+export type ConfigFileContents = Pick<ReportConfig, 'clientName' | 'competitors' | 'brandVariants' | 'prompts' | 'promptDetails' | 'additionalQuestions'>;
+
+export type ConfigFileFormat = 'csv' | 'json';
+
+export interface ConfigFileError {
+    location: string; // e.g. "Row 4" in a CSV file, "prompts[2]" in a JSON file
+    message: string;
+}
+
+// JSON layout. Competitors and prompts may also be plain strings.
+interface BrandEntry {
+    name: string;
+    aliases?: string[];
+    domains?: string[];
+    products?: string[];
+}
+
+interface ConfigFileJson {
+    client: BrandEntry | string;
+    competitors: (BrandEntry | string)[];
+    prompts: ({ text: string } & PromptDetails | string)[];
+    additionalQuestions?: string[];
+}
+
+// CSV layout: one row per item, with its type in the first column. Multiple aliases,
+// domains or products in one cell are separated by semicolons.
+const CSV_COLUMNS = ['type', 'value', 'category', 'funnelStage', 'locale', 'aliases', 'domains', 'products'] as const;
+const LIST_SEPARATOR = ';';
+
+type EntryType = 'client' | 'competitor' | 'prompt' | 'question';
+
+// One item from either format, before validation.
+interface FileEntry {
+    location: string;
+    type: string;
+    value: string;
+    category: string;
+    funnelStage: string;
+    locale: string;
+    aliases: string[];
+    domains: string[];
+    products: string[];
+}
+
+const ENTRY_TYPES: EntryType[] = ['client', 'competitor', 'prompt', 'question'];
+
+export function getConfigFileFormat(fileName: string): ConfigFileFormat | null {
+    const extension = fileName.toLowerCase().split('.').pop();
+    return extension === 'csv' || extension === 'json' ? extension : null;
+}
+
+// RFC 4180 records: quoted fields may contain commas, doubled quotes and line breaks.
+function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+}
+
+const splitCell = (cell: string | undefined) => (cell || '').split(LIST_SEPARATOR).map(v => v.trim()).filter(Boolean);
+
+function readCsvEntries(text: string): { entries: FileEntry[], errors: ConfigFileError[] } {
+    // A byte order mark, as written by spreadsheet exports, would otherwise be part of the first header.
+    const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ''));
+    const columns = (header || []).map(h => h.trim().toLowerCase());
+    const typeIndex = columns.indexOf('type');
+    const valueIndex = columns.indexOf('value');
+    if (typeIndex === -1 || valueIndex === -1) {
+        return { entries: [], errors: [{ location: 'Row 1', message: `The header must include the columns ${CSV_COLUMNS.join(', ')}.` }] };
+    }
+    const cell = (record: string[], column: string) => {
+        const index = columns.indexOf(column);
+        return index === -1 ? '' : (record[index] || '').trim();
+    };
+
+    const entries = records
+        .map((record, index) => ({ record, location: `Row ${index + 2}` }))
+        .filter(({ record }) => record.some(value => value.trim()))
+        .map(({ record, location }) => ({
+            location,
+            type: cell(record, 'type').toLowerCase(),
+            value: cell(record, 'value'),
+            category: cell(record, 'category'),
+            funnelStage: cell(record, 'funnelstage').toLowerCase(),
+            locale: cell(record, 'locale'),
+            aliases: splitCell(cell(record, 'aliases')),
+            domains: splitCell(cell(record, 'domains')),
+            products: splitCell(cell(record, 'products')),
+        }));
+    return { entries, errors: [] };
+}
+
+function readJsonEntries(text: string): { entries: FileEntry[], errors: ConfigFileError[] } {
+    let data: Partial<ConfigFileJson>;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        return { entries: [], errors: [{ location: 'File', message: `Not valid JSON: ${(e as Error).message}` }] };
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return { entries: [], errors: [{ location: 'File', message: 'Expected an object with "client", "competitors", "prompts" and "additionalQuestions".' }] };
+    }
+
+    const errors: ConfigFileError[] = [];
+    const toList = (value: unknown, location: string): string[] => {
+        if (value === undefined) return [];
+        if (Array.isArray(value) && value.every(v => typeof v === 'string')) return value.map(v => v.trim()).filter(Boolean);
+        errors.push({ location, message: 'Expected an array of strings.' });
+        return [];
+    };
+    const brandEntry = (value: unknown, type: EntryType, location: string): FileEntry => {
+        const brand = (typeof value === 'string' ? { name: value } : value || {}) as Partial<BrandEntry>;
+        return {
+            location,
+            type,
+            value: typeof brand.name === 'string' ? brand.name.trim() : '',
+            category: '',
+            funnelStage: '',
+            locale: '',
+            aliases: toList(brand.aliases, `${location}.aliases`),
+            domains: toList(brand.domains, `${location}.domains`),
+            products: toList(brand.products, `${location}.products`),
+        };
+    };
+    const arrayAt = (key: keyof ConfigFileJson): unknown[] => {
+        const value = data[key];
+        if (value === undefined) return [];
+        if (Array.isArray(value)) return value;
+        errors.push({ location: key, message: 'Expected an array.' });
+        return [];
+    };
+
+    const entries: FileEntry[] = [];
+    if (data.client !== undefined) entries.push(brandEntry(data.client, 'client', 'client'));
+    arrayAt('competitors').forEach((c, i) => entries.push(brandEntry(c, 'competitor', `competitors[${i}]`)));
+    arrayAt('prompts').forEach((p, i) => {
+        const prompt = (typeof p === 'string' ? { text: p } : p || {}) as Record<'text' | 'category' | 'funnelStage' | 'locale', unknown>;
+        const field = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+        entries.push({
+            location: `prompts[${i}]`,
+            type: 'prompt',
+            value: field(prompt.text),
+            category: field(prompt.category),
+            funnelStage: field(prompt.funnelStage).toLowerCase(),
+            locale: field(prompt.locale),
+            aliases: [], domains: [], products: [],
+        });
+    });
+    arrayAt('additionalQuestions').forEach((q, i) => entries.push({
+        location: `additionalQuestions[${i}]`,
+        type: 'question',
+        value: typeof q === 'string' ? q.trim() : '',
+        category: '', funnelStage: '', locale: '',
+        aliases: [], domains: [], products: [],
+    }));
+    return { entries, errors };
+}
+
+// Reads a CSV or JSON config file. Nothing is returned unless the whole file is valid, so a
+// partly broken spreadsheet never silently drops rows.
+export function parseConfigFile(text: string, format: ConfigFileFormat): { contents: ConfigFileContents | null, errors: ConfigFileError[] } {
+    const { entries, errors } = format === 'csv' ? readCsvEntries(text) : readJsonEntries(text);
+
+    let clientName = '';
+    const competitors: string[] = [];
+    const brandVariants: BrandVariants[] = [];
+    const prompts: string[] = [];
+    const promptDetails: PromptDetails[] = [];
+    const additionalQuestions: string[] = [];
+    const seen = new Set<string>();
+
+    entries.forEach(entry => {
+        const fail = (message: string) => errors.push({ location: entry.location, message });
+        if (!ENTRY_TYPES.includes(entry.type as EntryType)) {
+            fail(entry.type ? `Unknown type "${entry.type}"; use ${ENTRY_TYPES.join(', ')}.` : 'The type is missing.');
+            return;
+        }
+        const type = entry.type as EntryType;
+        if (!entry.value) {
+            fail(`The ${type} is empty.`);
+            return;
+        }
+        const isBrand = type === 'client' || type === 'competitor';
+        if (!isBrand && entry.aliases.length + entry.domains.length + entry.products.length > 0) {
+            fail('Aliases, domains and products only apply to the client and competitors.');
+        }
+        if (type !== 'prompt' && (entry.category || entry.funnelStage || entry.locale)) {
+            fail('A category, funnel stage or locale only applies to prompts.');
+        }
+        if (entry.funnelStage && !FUNNEL_STAGES.includes(entry.funnelStage as FunnelStage)) {
+            fail(`Unknown funnel stage "${entry.funnelStage}"; use ${FUNNEL_STAGES.join(', ')}.`);
+        }
+        // Brands share one namespace, since a competitor can't also be the client. The same prompt
+        // may be asked in several markets, so prompts only repeat within a locale.
+        const key = `${isBrand ? 'brand' : type}:${entry.value.toLowerCase()}${type === 'prompt' ? `:${entry.locale.toLowerCase()}` : ''}`;
+        if (seen.has(key)) {
+            fail(type === 'prompt' && entry.locale ? `"${entry.value}" appears more than once for ${entry.locale}.` : `"${entry.value}" appears more than once.`);
+            return;
+        }
+        seen.add(key);
+
+        if (type === 'client') {
+            if (clientName) {
+                fail(`There is already a client, "${clientName}".`);
+                return;
+            }
+            clientName = entry.value;
+        }
+        if (type === 'competitor') competitors.push(entry.value);
+        if (isBrand && entry.aliases.length + entry.domains.length + entry.products.length > 0) {
+            brandVariants.push({ brandName: entry.value, aliases: entry.aliases, domains: entry.domains, products: entry.products });
+        }
+        if (type === 'prompt') {
+            prompts.push(entry.value);
+            promptDetails.push({
+                ...(entry.category && { category: entry.category }),
+                ...(entry.funnelStage && { funnelStage: entry.funnelStage as FunnelStage }),
+                ...(entry.locale && { locale: entry.locale }),
+            });
+        }
+        if (type === 'question') additionalQuestions.push(entry.value);
+    });
+
+    if (entries.length > 0 || errors.length === 0) {
+        if (!clientName) errors.push({ location: 'File', message: 'No client is defined.' });
+        if (prompts.length === 0) errors.push({ location: 'File', message: 'No prompts are defined.' });
+    }
+
+    if (errors.length > 0) return { contents: null, errors };
+    return { contents: { clientName, competitors, brandVariants, prompts, promptDetails, additionalQuestions }, errors };
+}
+
+const escapeCsv = (value: string) => /[",\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Writes the tracked brands, prompts and questions in the format `parseConfigFile` reads.
+export function serializeConfigFile(config: ConfigFileContents, format: ConfigFileFormat): string {
+    const variantsOf = (brandName: string) => config.brandVariants?.find(v => v.brandName.toLowerCase() === brandName.toLowerCase());
+    const brandEntry = (name: string): BrandEntry => {
+        const variants = variantsOf(name);
+        return { name, aliases: variants?.aliases || [], domains: variants?.domains || [], products: variants?.products || [] };
+    };
+
+    if (format === 'json') {
+        const file: ConfigFileJson = {
+            client: brandEntry(config.clientName),
+            competitors: config.competitors.map(brandEntry),
+            prompts: config.prompts.map((text, i) => ({ text, ...getPromptDetails(i, config) })),
+            additionalQuestions: config.additionalQuestions,
+        };
+        return JSON.stringify(file, null, 2);
+    }
+
+    const brandRow = (type: EntryType, name: string) => {
+        const { aliases, domains, products } = brandEntry(name);
+        return [type, name, '', '', '', aliases!.join(LIST_SEPARATOR), domains!.join(LIST_SEPARATOR), products!.join(LIST_SEPARATOR)];
+    };
+    const rows: string[][] = [
+        [...CSV_COLUMNS],
+        brandRow('client', config.clientName),
+        ...config.competitors.map(name => brandRow('competitor', name)),
+        ...config.prompts.map((text, i) => {
+            const details = getPromptDetails(i, config);
+            return ['prompt', text, details.category || '', details.funnelStage || '', details.locale || '', '', '', ''];
+        }),
+        ...config.additionalQuestions.map(question => ['question', question, '', '', '', '', '', '']),
+    ];
+    return rows.map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+}
\ No newline at end of file
@@ -0,0 +1,197 @@
+import type { AnalysisResult, AnalysisTarget, ModelPrice, ReportConfig, SetupCallType, TokenUsage, UsageCallType } from '../types';
+import { getAnalysisTargets, getJudgeTarget, getTargetKey } from '../services/providers';
+import { describeTrackedBrands } from './brandVariants';
+import { getSamplesPerPrompt, getTrackedBrands } from './aggregation';
+
+// List prices in USD per million tokens when this table was last updated. They change, so
+// they can be overridden per model in the setup form. Perplexity's per-request search fees
+// are not included.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'gpt-4o-mini': { input: 0.15, output: 0.60 },
+    'gpt-4o': { input: 2.50, output: 10.00 },
+    'gpt-4-turbo': { input: 10.00, output: 30.00 },
+    'claude-sonnet-4-5': { input: 3.00, output: 15.00 },
+    'claude-opus-4-1': { input: 15.00, output: 75.00 },
+    'claude-haiku-4-5': { input: 1.00, output: 5.00 },
+    'sonar': { input: 1.00, output: 1.00 },
+    'sonar pro': { input: 3.00, output: 15.00 },
+    'sonar reasoning': { input: 1.00, output: 5.00 },
+    'sonar reasoning pro': { input: 2.00, output: 8.00 },
+    'sonar deep research': { input: 2.00, output: 8.00 },
+    'r1-1776': { input: 2.00, output: 8.00 },
+    'llama-3-sonar-large-32k-online': { input: 1.00, output: 1.00 },
+    'llama-3-sonar-small-32k-online': { input: 0.20, output: 0.20 },
+};
+
+// Assumed sizes for the pre-run estimate, in tokens.
+const ESTIMATED_ANSWER_TOKENS = 700;
+const ESTIMATED_QUESTION_ANSWER_TOKENS = 150;
+const ANALYSIS_INSTRUCTION_TOKENS = 350;
+const ANALYSIS_OUTPUT_TOKENS_PER_BRAND = 120; // including the rationale and quotes
+const ESTIMATED_DISCOVERED_BRANDS = 3;
+const QUESTION_INSTRUCTION_TOKENS = 40;
+// Share of brand analyses expected to need the one repair call, which resends the analysis
+// request with the invalid reply and is billed like any other call.
+const ESTIMATED_REPAIR_RATE = 0.1;
+
+const emptyUsage = (): TokenUsage => ({ inputTokens: 0, outputTokens: 0 });
+
+export function addUsage(a?: TokenUsage, b?: TokenUsage): TokenUsage | undefined {
+    if (!a || !b) return a ?? b;
+    return { inputTokens: a.inputTokens + b.inputTokens, outputTokens: a.outputTokens + b.outputTokens };
+}
+
+// Rough token count, about four characters per token for English text.
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export function getModelPrice(target: Pick<AnalysisTarget, 'key' | 'model'>, config: ReportConfig): ModelPrice | null {
+    return config.modelPrices?.[target.key] ?? DEFAULT_MODEL_PRICES[target.model] ?? null;
+}
+
+export function priceUsage(usage: TokenUsage, price: ModelPrice): number {
+    return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+// Answers are paid at the target's price; the analysis and question calls at the judge's, if the run has one.
+function priceTargetUsage(target: AnalysisTarget, answer: TokenUsage, grading: TokenUsage, config: ReportConfig): number | null {
+    const price = getModelPrice(target, config);
+    const judge = getJudgeTarget(config);
+    const judgePrice = judge ? getModelPrice(judge, config) : price;
+    if (!price || !judgePrice) return null;
+    return priceUsage(answer, price) + priceUsage(grading, judgePrice);
+}
+
+export interface CostEstimate {
+    calls: number; // including the expected repair calls, rounded up
+    usage: TokenUsage;
+    cost: number; // for the priced targets only
+    unpricedTargets: AnalysisTarget[];
+}
+
+// Expected spend before a run: prompts × provider+models × samples, each with one answer,
+// one brand analysis and one call per additional question, plus an allowance for analysis repairs.
+export function estimateRunCost(config: ReportConfig): CostEstimate {
+    const samples = getSamplesPerPrompt(config);
+    const brandListTokens = estimateTokens(describeTrackedBrands(config));
+    const analysisOutputTokens = (getTrackedBrands(config).length + ESTIMATED_DISCOVERED_BRANDS) * ANALYSIS_OUTPUT_TOKENS_PER_BRAND;
+
+    // Per provider+model: the answers, and the grading calls made for them.
+    const answer = emptyUsage();
+    const grading = emptyUsage();
+    config.prompts.forEach(prompt => {
+        answer.inputTokens += estimateTokens(prompt);
+        answer.outputTokens += ESTIMATED_ANSWER_TOKENS;
+        const analysisInputTokens = ANALYSIS_INSTRUCTION_TOKENS + brandListTokens + ESTIMATED_ANSWER_TOKENS;
+        grading.inputTokens += analysisInputTokens + ESTIMATED_REPAIR_RATE * (analysisInputTokens + analysisOutputTokens);
+        grading.outputTokens += analysisOutputTokens * (1 + ESTIMATED_REPAIR_RATE);
+        config.additionalQuestions.forEach(question => {
+            grading.inputTokens += QUESTION_INSTRUCTION_TOKENS + estimateTokens(question) + ESTIMATED_ANSWER_TOKENS;
+            grading.outputTokens += ESTIMATED_QUESTION_ANSWER_TOKENS;
+        });
+    });
+    [answer, grading].forEach(u => {
+        u.inputTokens = Math.round(u.inputTokens * samples);
+        u.outputTokens = Math.round(u.outputTokens * samples);
+    });
+    const perTarget = addUsage(answer, grading)!;
+
+    const targets = getAnalysisTargets(config);
+    const usage = emptyUsage();
+    let cost = 0;
+    const unpricedTargets: AnalysisTarget[] = [];
+    targets.forEach(target => {
+        usage.inputTokens += perTarget.inputTokens;
+        usage.outputTokens += perTarget.outputTokens;
+        const targetCost = priceTargetUsage(target, answer, grading, config);
+        if (targetCost !== null) cost += targetCost;
+        else unpricedTargets.push(target);
+    });
+
+    const responses = config.prompts.length * samples * targets.length;
+    return {
+        calls: responses * (2 + config.additionalQuestions.length) + Math.ceil(responses * ESTIMATED_REPAIR_RATE),
+        usage,
+        cost,
+        unpricedTargets,
+    };
+}
+
+export interface TargetCost {
+    usage: Record<UsageCallType, TokenUsage>;
+    total: TokenUsage;
+    cost: number | null; // null when the model has no price
+}
+
+export const SETUP_CALL_LABELS: Record<SetupCallType, string> = {
+    generation: 'Prompt generation',
+    translation: 'Prompt translation',
+};
+
+// Tokens and cost of the calls of one type made by one provider+model while setting up the run.
+export interface SetupCost {
+    target: AnalysisTarget;
+    callType: SetupCallType;
+    usage: TokenUsage;
+    cost: number | null; // null when the model has no price
+}
+
+// Setup calls are paid at the price of the model that made them, which need not be in the run.
+function aggregateSetupCosts(config: ReportConfig): SetupCost[] {
+    const byKey = new Map<string, SetupCost>();
+    (config.setupUsage || []).forEach(({ provider, model, callType, usage }) => {
+        const key = `${callType}:${getTargetKey(provider, model)}`;
+        const entry = byKey.get(key);
+        if (entry) entry.usage = addUsage(entry.usage, usage)!;
+        else byKey.set(key, { target: { key: getTargetKey(provider, model), provider, model }, callType, usage, cost: null });
+    });
+    return Array.from(byKey.values()).map(entry => {
+        const price = getModelPrice(entry.target, config);
+        return { ...entry, cost: price ? priceUsage(entry.usage, price) : null };
+    });
+}
+
+// Actual tokens and cost per provider+model, from the usage the APIs reported. Grading calls
+// count towards the response they graded, even when a judge made them. Calls made to set up the
+// run, such as drafting or translating prompts, are listed separately and count towards the total.
+export function aggregateCosts(results: AnalysisResult[], config: ReportConfig): { byTarget: Record<string, TargetCost>, setup: SetupCost[], totalCost: number, hasUnpriced: boolean } {
+    const byTarget: Record<string, TargetCost> = {};
+    getAnalysisTargets(config).forEach(t => {
+        byTarget[t.key] = { usage: { answer: emptyUsage(), analysis: emptyUsage(), questions: emptyUsage() }, total: emptyUsage(), cost: null };
+    });
+
+    results.forEach(result => {
+        result.providerResponses.forEach(pResponse => {
+            const entry = byTarget[getTargetKey(pResponse.provider, pResponse.model)];
+            if (!entry || !pResponse.usage) return;
+            (Object.entries(pResponse.usage) as [UsageCallType, TokenUsage | undefined][]).forEach(([callType, usage]) => {
+                entry.usage[callType] = addUsage(entry.usage[callType], usage)!;
+                entry.total = addUsage(entry.total, usage)!;
+            });
+        });
+    });
+
+    let totalCost = 0;
+    let hasUnpriced = false;
+    getAnalysisTargets(config).forEach(target => {
+        const entry = byTarget[target.key];
+        entry.cost = priceTargetUsage(target, entry.usage.answer, addUsage(entry.usage.analysis, entry.usage.questions)!, config);
+        if (entry.cost !== null) {
+            totalCost += entry.cost;
+        } else {
+            hasUnpriced = true;
+        }
+    });
+
+    const setup = aggregateSetupCosts(config);
+    setup.forEach(entry => {
+        if (entry.cost !== null) totalCost += entry.cost;
+        else hasUnpriced = true;
+    });
+
+    return { byTarget, setup, totalCost, hasUnpriced };
+}
+
+export function formatCost(cost: number): string {
+    return cost > 0 && cost < 0.01 ? '< $0.01' : `$${cost.toFixed(2)}`;
+}
@@ -1,4 +1,9 @@
-import type { AnalysisResult, AppConfig, Provider } from '../types';
+import type { AnalysisResult, AppConfig, BrandSentimentData, CategoryBreakdownData, CompetitiveMetrics, ProviderResponse, TokenUsage } from '../types';
+import { getAnalysisTargets, getJudgeTarget, getTargetDisplayName } from '../services/providers';
+import { describeTrackedBrands } from './brandVariants';
+import { SETUP_CALL_LABELS, aggregateCosts, formatCost } from './costs';
+import { describeLocale } from './locales';
+import { NO_LOCALE, UNCATEGORIZED, aggregateBrandMentions, aggregateCategoryBreakdown, aggregateCitedDomains, aggregateLeaderboard, aggregateLocaleComparison, aggregateMentionRates, aggregateSentiments, aggregateVisibility, countLocalMentions, formatSentimentScore, getClientCitationsByTarget, getClientMentionsByTarget, getPromptCategories, getPromptCategory, getPromptLocale, getPromptLocales, getResponseCoverage, getResultPromptIndex, getSamplesPerPrompt, getTrackedBrands, isClientDomain } from './aggregation';
 
 const PASTE_API_URL = 'https://dpaste.com/api/';
 
@@ -37,18 +42,6 @@ export async function createHostedReport(htmlContent: string, clientName: string
 }
 
 
-const providerBaseNames: Record<Provider, string> = {
-    gemini: 'Google Gemini',
-    openai: 'OpenAI',
-    perplexity: 'Perplexity',
-    copilot: 'Copilot / Azure'
-};
-
-const getProviderNameWithModel = (provider: Provider, config: AppConfig): string => {
-    const model = config.models[provider];
-    return model ? `${providerBaseNames[provider]} (${model})` : providerBaseNames[provider];
-};
-
 function getStyles(): string {
     return `
 <style>
@@ -75,6 +68,23 @@ function getStyles(): string {
     .sentiment-Not-Mentioned { color: #6b7280; }
     .discovered-label { margin-left: 8px; font-size: 0.75rem; font-weight: 600; color: #facc15; letter-spacing: 0.025em; vertical-align: middle; }
     .error { color: #f87171; font-weight: bold; }
+    .warning { color: #facc15; }
+    .category-label { margin-left: 8px; font-size: 0.75rem; font-weight: 600; color: #6ee7b7; border: 1px solid #4b5563; border-radius: 9999px; padding: 0.1em 0.6em; vertical-align: middle; }
+    .category-hidden, .locale-hidden { display: none !important; }
+    th.sortable { cursor: pointer; }
+    th.sortable:hover { color: #f3f4f6; }
+    th[data-sort-direction="asc"]::after { content: " ▲"; }
+    th[data-sort-direction="desc"]::after { content: " ▼"; }
+    .evidence { margin-bottom: 0.75rem; }
+    .evidence summary { cursor: pointer; font-weight: bold; }
+    .evidence blockquote { margin: 0.5rem 0; padding-left: 0.75rem; border-left: 2px solid #4b5563; color: #9ca3af; font-style: italic; }
+    .evidence:target { background-color: rgba(74, 222, 128, 0.1); }
+    .local-count { color: #6b7280; }
+    .count-mismatch, .count-mismatch .local-count { color: #facc15; }
+    .table-note { font-size: 0.8rem; color: #9ca3af; margin: 0; }
+    .sources { margin: 0 0 1rem; padding-left: 1.25rem; font-size: 0.85rem; word-break: break-all; }
+    .sources a { color: #60a5fa; }
+    .sources a.client-name { color: #4ade80; }
 
     /* Accordion Styles */
     .card.accordion-wrapper {
@@ -117,11 +127,16 @@ function escapeHtml(unsafe: string): string {
          .replace(/'/g, "&#039;");
 }
 
+function getResponseHeading(response: ProviderResponse, config: AppConfig): string {
+    const name = getTargetDisplayName(response);
+    return getSamplesPerPrompt(config) > 1 ? `${name} (sample ${(response.sample ?? 0) + 1})` : name;
+}
+
 function generateSummary(results: AnalysisResult[], config: AppConfig): string {
-    const totalMentions = results.flatMap(r => r.providerResponses)
-        .flatMap(pr => pr.brandAnalyses)
-        .filter(ba => ba.brandName.toLowerCase() === config.clientName.toLowerCase())
-        .reduce((sum, ba) => sum + ba.mentions, 0);
+    const totalMentions = Object.values(getClientMentionsByTarget(results, config)).reduce((sum, count) => sum + count, 0);
+    const coverage = getResponseCoverage(results, config);
+    const judge = getJudgeTarget(config);
+    const generator = config.promptGenerator;
 
     return `
 <h2>Executive Summary</h2>
@@ -130,8 +145,14 @@ function generateSummary(results: AnalysisResult[], config: AppConfig): string {
     <ul>
         <li><strong>Client Brand:</strong> ${escapeHtml(config.clientName)}</li>
         <li><strong>Competitors Tracked:</strong> ${escapeHtml(config.competitors.join(', ')) || 'None'}</li>
-        <li><strong>LLM Providers Analyzed:</strong> ${config.providers.map(p => escapeHtml(getProviderNameWithModel(p, config))).join(', ')}</li>
+        ${config.brandVariants?.length ? `<li><strong>Brand Variants:</strong> ${escapeHtml(describeTrackedBrands(config))}</li>` : ''}
+        <li><strong>LLM Providers Analyzed:</strong> ${getAnalysisTargets(config).map(t => escapeHtml(getTargetDisplayName(t))).join(', ')}</li>
         <li><strong>Total Prompts:</strong> ${config.prompts.length}</li>
+        ${isLocalized(config) ? `<li><strong>Locales:</strong> ${getPromptLocales(config).map(l => escapeHtml(formatLocale(l))).join(', ')}</li>` : ''}
+        ${generator ? `<li><strong>Prompt Generator:</strong> ${escapeHtml(getTargetDisplayName(generator))}, for the category "${escapeHtml(generator.category)}"${generator.personas.length ? ` and the personas ${escapeHtml(generator.personas.join('; '))}` : ''}</li>` : ''}
+        <li><strong>Samples per Prompt:</strong> ${getSamplesPerPrompt(config)}</li>
+        <li><strong>Judge Model:</strong> ${judge ? escapeHtml(getTargetDisplayName(judge)) : 'None, each model analyzed its own responses'}</li>
+        ${coverage.collected < coverage.expected ? `<li><strong>Partial Results:</strong> ${coverage.collected} of ${coverage.expected} responses were collected before the analysis was cancelled.</li>` : ''}
         <li><strong>Total Client Mentions:</strong> ${totalMentions}</li>
     </ul>
 </div>
@@ -139,67 +160,21 @@ function generateSummary(results: AnalysisResult[], config: AppConfig): string {
 }
 
 function generateComparativeTables(results: AnalysisResult[], config: AppConfig): string {
-    const allKnownBrands = [config.clientName, ...config.competitors];
-    const knownBrandsLower = new Set(allKnownBrands.map(b => b.toLowerCase()));
+    const knownBrandsLower = new Set(getTrackedBrands(config).map(b => b.toLowerCase()));
     
-    const mentionsMap = new Map<string, { brandName: string, mentions: Record<string, number> }>();
-    const sentimentMap = new Map<string, { brandName: string, sentiments: Record<string, { P: number, N: number, Nl: number }> }>();
-
-    results.forEach(result => {
-        result.providerResponses.forEach(pResponse => {
-            pResponse.brandAnalyses.forEach(analysis => {
-                if (typeof analysis.brandName === 'string') {
-                    const lowerCaseBrand = analysis.brandName.toLowerCase();
-                    if (!mentionsMap.has(lowerCaseBrand)) {
-                        mentionsMap.set(lowerCaseBrand, { brandName: analysis.brandName, mentions: {} });
-                    }
-                    if (!sentimentMap.has(lowerCaseBrand)) {
-                        sentimentMap.set(lowerCaseBrand, { brandName: analysis.brandName, sentiments: {} });
-                    }
-                    
-                    const mentionEntry = mentionsMap.get(lowerCaseBrand)!;
-                    mentionEntry.mentions[pResponse.provider] = (mentionEntry.mentions[pResponse.provider] || 0) + analysis.mentions;
-
-                    if (analysis.sentiment !== 'Not Mentioned') {
-                        const sentimentEntry = sentimentMap.get(lowerCaseBrand)!;
-                        if (!sentimentEntry.sentiments[pResponse.provider]) {
-                           sentimentEntry.sentiments[pResponse.provider] = { P: 0, N: 0, Nl: 0 };
-                        }
-                        if (analysis.sentiment === 'Positive') sentimentEntry.sentiments[pResponse.provider].P++;
-                        if (analysis.sentiment === 'Negative') sentimentEntry.sentiments[pResponse.provider].N++;
-                        if (analysis.sentiment === 'Neutral') sentimentEntry.sentiments[pResponse.provider].Nl++;
-                    }
-                }
-            });
-        });
-    });
-
-    // Ensure all known brands are in the maps, even if not mentioned
-    allKnownBrands.forEach(brand => {
-        const lowerCaseBrand = brand.toLowerCase();
-        if (!mentionsMap.has(lowerCaseBrand)) {
-           mentionsMap.set(lowerCaseBrand, { brandName: brand, mentions: {} });
-        }
-        if (!sentimentMap.has(lowerCaseBrand)) {
-            sentimentMap.set(lowerCaseBrand, { brandName: brand, sentiments: {} });
-        }
-    });
+    const targets = getAnalysisTargets(config);
+    const brandMentionsData = aggregateBrandMentions(results, config);
+    const sentimentMap = new Map(aggregateSentiments(results, config).map(s => [s.brandName.toLowerCase(), s]));
 
-
-    const brandMentionsData = Array.from(mentionsMap.values()).sort((a, b) => {
-        const totalA = Object.values(a.mentions).reduce((s, c) => s + c, 0);
-        const totalB = Object.values(b.mentions).reduce((s, c) => s + c, 0);
-        return totalB - totalA;
-    });
-
-    let mentionsTable = `
+    const mentionsTable = `
 <h2>Comparative Brand Mentions</h2>
 <div class="card">
+    <p class="table-note">LLM-reported count, with the text-match count in brackets. Highlighted where they disagree.</p>
     <table>
         <thead>
             <tr>
                 <th>Brand</th>
-                ${config.providers.map(p => `<th style="text-align: right;">${escapeHtml(getProviderNameWithModel(p, config))}</th>`).join('')}
+                ${targets.map(t => `<th style="text-align: right;">${escapeHtml(getTargetDisplayName(t))}</th>`).join('')}
             </tr>
         </thead>
         <tbody>
@@ -211,28 +186,33 @@ function generateComparativeTables(results: AnalysisResult[], config: AppConfig)
                         ${escapeHtml(d.brandName)}
                         ${!isKnown ? `<span class="discovered-label">(Discovered)</span>` : ''}
                     </td>
-                    ${config.providers.map(p => `<td style="text-align: right;">${d.mentions[p] || 0}</td>`).join('')}
+                    ${targets.map(t => {
+                        const reported = d.mentions[t.key] || 0;
+                        const counted = d.localMentions[t.key] || 0;
+                        return `<td style="text-align: right;" class="${reported !== counted ? 'count-mismatch' : ''}">${reported} <span class="local-count">(${counted})</span></td>`;
+                    }).join('')}
                 </tr>
             `}).join('')}
         </tbody>
     </table>
 </div>`;
 
-    let sentimentTable = `
+    const sentimentTable = `
 <h2>Comparative Sentiment Scores</h2>
 <div class="card">
+    <p class="table-note">Response counts per sentiment, and the average score from -1 to +1. Click a score to see the quotes behind it.</p>
     <table>
         <thead>
             <tr>
                 <th rowspan="2">Brand</th>
-                ${config.providers.map(p => `<th colspan="3" style="text-align: center;">${escapeHtml(getProviderNameWithModel(p, config))}</th>`).join('')}
+                ${targets.map(t => `<th colspan="4" style="text-align: center;">${escapeHtml(getTargetDisplayName(t))}</th>`).join('')}
             </tr>
             <tr>
-                ${config.providers.map(() => `<th style="text-align: center;">Pos</th><th style="text-align: center;">Neu</th><th style="text-align: center;">Neg</th>`).join('')}
+                ${targets.map(() => `<th style="text-align: center;">Pos</th><th style="text-align: center;">Neu</th><th style="text-align: center;">Neg</th><th style="text-align: center;">Avg</th>`).join('')}
             </tr>
         </thead>
         <tbody>
-            ${brandMentionsData.map(brandData => {
+            ${brandMentionsData.map((brandData, brandIndex) => {
                 const lowerCaseBrand = brandData.brandName.toLowerCase();
                 const sentimentData = sentimentMap.get(lowerCaseBrand);
                 const isKnown = knownBrandsLower.has(lowerCaseBrand);
@@ -243,12 +223,14 @@ function generateComparativeTables(results: AnalysisResult[], config: AppConfig)
                         ${escapeHtml(brandData.brandName)}
                         ${!isKnown ? `<span class="discovered-label">(Discovered)</span>` : ''}
                     </td>
-                    ${config.providers.map(p => {
-                        const s = sentimentData?.sentiments[p] || { P: 0, Nl: 0, N: 0 };
+                    ${targets.map((t, targetIndex) => {
+                        const s = sentimentData?.sentiments[t.key] || { P: 0, Nl: 0, N: 0 };
+                        const average = sentimentData?.averageScores[t.key];
                         return `
                             <td class="sentiment-Positive" style="text-align: center;">${s.P}</td>
                             <td class="sentiment-Neutral" style="text-align: center;">${s.Nl}</td>
                             <td class="sentiment-Negative" style="text-align: center;">${s.N}</td>
+                            <td style="text-align: center;">${average === undefined ? '–' : `<a href="#${getEvidenceId(brandIndex, targetIndex)}">${formatSentimentScore(average)}</a>`}</td>
                         `;
                     }).join('')}
                 </tr>
@@ -256,42 +238,378 @@ function generateComparativeTables(results: AnalysisResult[], config: AppConfig)
             }).join('')}
         </tbody>
     </table>
+</div>
+${generateSentimentEvidence(brandMentionsData.map(d => sentimentMap.get(d.brandName.toLowerCase())), config)}`;
+
+    const formatRank = (rank: number | null) => rank === null ? '–' : rank.toFixed(1);
+
+    const visibilityTable = `
+<h2>Visibility Ranking</h2>
+<div class="card">
+    <p class="table-note">Weighted score out of 100 combining presence, position of first mention or list rank, and explicit recommendation, averaged over all prompts.</p>
+    <table>
+        <thead>
+            <tr>
+                <th>#</th>
+                <th>Brand</th>
+                ${targets.map(t => `<th style="text-align: right;">${escapeHtml(getTargetDisplayName(t))}</th>`).join('')}
+                <th style="text-align: right;">Overall</th>
+                <th style="text-align: right;">Avg. First Mention</th>
+                <th style="text-align: right;">Avg. List Rank</th>
+                <th style="text-align: right;">Recommended</th>
+            </tr>
+        </thead>
+        <tbody>
+            ${aggregateVisibility(results, config).map((v, index) => {
+                const lowerCaseBrand = v.brandName.toLowerCase();
+                const isClient = lowerCaseBrand === config.clientName.toLowerCase();
+                return `
+                <tr class="${isClient ? 'client-row' : ''}">
+                    <td>${index + 1}</td>
+                    <td class="${isClient ? 'client-name' : ''}">
+                        ${escapeHtml(v.brandName)}
+                        ${!knownBrandsLower.has(lowerCaseBrand) ? `<span class="discovered-label">(Discovered)</span>` : ''}
+                    </td>
+                    ${targets.map(t => `<td style="text-align: right;">${Math.round(v.scores[t.key] || 0)}</td>`).join('')}
+                    <td style="text-align: right;"><strong>${Math.round(v.overallScore)}</strong></td>
+                    <td style="text-align: right;">${formatRank(v.avgFirstMentionRank)}</td>
+                    <td style="text-align: right;">${formatRank(v.avgListRank)}</td>
+                    <td style="text-align: right;">${v.recommendedCount}</td>
+                </tr>
+                `;
+            }).join('')}
+        </tbody>
+    </table>
+</div>`;
+
+    const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+    const mentionRateTable = `
+<h2>Mention Rate &amp; Stability</h2>
+<div class="card">
+    <p class="table-note">Share of responses mentioning each brand, with its 95% confidence interval in brackets, and mentions per response ± standard deviation.</p>
+    <table>
+        <thead>
+            <tr>
+                <th>Brand</th>
+                ${targets.map(t => `<th style="text-align: right;">${escapeHtml(getTargetDisplayName(t))}</th>`).join('')}
+            </tr>
+        </thead>
+        <tbody>
+            ${aggregateMentionRates(results, config).map(d => {
+                const lowerCaseBrand = d.brandName.toLowerCase();
+                const isClient = lowerCaseBrand === config.clientName.toLowerCase();
+                return `
+                <tr class="${isClient ? 'client-row' : ''}">
+                    <td class="${isClient ? 'client-name' : ''}">
+                        ${escapeHtml(d.brandName)}
+                        ${!knownBrandsLower.has(lowerCaseBrand) ? `<span class="discovered-label">(Discovered)</span>` : ''}
+                    </td>
+                    ${targets.map(t => {
+                        const rate = d.rates[t.key];
+                        if (!rate || rate.responses === 0) return `<td style="text-align: right;">–</td>`;
+                        return `<td style="text-align: right;">${percent(rate.rate)} <span class="local-count">(${percent(rate.low)}–${percent(rate.high)})</span><br><span class="local-count">${rate.meanMentions.toFixed(1)} ± ${rate.stdDevMentions.toFixed(1)}</span></td>`;
+                    }).join('')}
+                </tr>
+                `;
+            }).join('')}
+        </tbody>
+    </table>
+</div>`;
+
+    // Cells carry their raw value for the sort script; an empty value always sorts last.
+    const leaderboardCells = (m: CompetitiveMetrics) => `
+                    <td style="text-align: right;" data-value="${m.shareOfVoice}">${Math.round(m.shareOfVoice * 100)}%</td>
+                    <td style="text-align: right;" data-value="${m.promptCoverage}">${Math.round(m.promptCoverage * 100)}%</td>
+                    <td style="text-align: right;" data-value="${m.averageRank ?? ''}">${formatRank(m.averageRank)}</td>`;
+    const leaderboardHeaders = (offset: number) => `
+                <th class="sortable" data-sort-index="${offset}" data-sort-default="desc"${offset === 1 ? ' data-sort-direction="desc"' : ''} style="text-align: right;">Share of Voice</th>
+                <th class="sortable" data-sort-index="${offset + 1}" data-sort-default="desc" style="text-align: right;">Prompt Coverage</th>
+                <th class="sortable" data-sort-index="${offset + 2}" data-sort-default="asc" style="text-align: right;">Avg. Rank</th>`;
+
+    const leaderboardTable = `
+<h2>Competitive Leaderboard</h2>
+<div class="card">
+    <p class="table-note">Share of voice is a brand's share of all tracked-brand mentions, prompt coverage the share of prompts mentioning it at least once, and average rank its average order of first mention. Click a column to sort.</p>
+    <table class="sortable-table">
+        <thead>
+            <tr>
+                <th rowspan="2">Brand</th>
+                <th colspan="3" style="text-align: center;">All Models</th>
+                ${targets.map(t => `<th colspan="3" style="text-align: center;">${escapeHtml(getTargetDisplayName(t))}</th>`).join('')}
+            </tr>
+            <tr>
+                ${[{}, ...targets].map((_, i) => leaderboardHeaders(1 + i * 3)).join('')}
+            </tr>
+        </thead>
+        <tbody>
+            ${aggregateLeaderboard(results, config).map(brand => {
+                const isClient = brand.brandName.toLowerCase() === config.clientName.toLowerCase();
+                return `
+                <tr class="${isClient ? 'client-row' : ''}">
+                    <td class="${isClient ? 'client-name' : ''}">${escapeHtml(brand.brandName)}</td>
+                    ${leaderboardCells(brand.overall)}
+                    ${targets.map(t => leaderboardCells(brand.byTarget[t.key])).join('')}
+                </tr>
+                `;
+            }).join('')}
+        </tbody>
+    </table>
 </div>`;
 
-    return mentionsTable + sentimentTable;
+    return leaderboardTable + mentionsTable + mentionRateTable + visibilityTable + sentimentTable;
+}
+
+// Only reports with categorized prompts get the breakdown and the category filter.
+const isCategorized = (config: AppConfig) => getPromptCategories(config).some(c => c !== UNCATEGORIZED);
+
+function generateCategoryBreakdown(results: AnalysisResult[], config: AppConfig): string {
+    if (!isCategorized(config)) return '';
+    const clientLower = config.clientName.toLowerCase();
+    const row = (d: CategoryBreakdownData) => `
+                <tr>
+                    <td>${escapeHtml(d.category)}</td>
+                    <td style="text-align: right;">${d.prompts}</td>
+                    <td style="text-align: right;">${Math.round(d.clientMentions * 10) / 10}</td>
+                    <td style="text-align: right;"><strong>${Math.round(d.shareOfVoice * 100)}%</strong></td>
+                    <td style="text-align: right;">${Math.round(d.promptCoverage * 100)}%</td>
+                    <td style="text-align: right;">${d.averageSentiment === null ? '–' : formatSentimentScore(d.averageSentiment)}</td>
+                    <td style="text-align: right;" class="${d.leader?.toLowerCase() === clientLower ? 'client-name' : ''}">${d.leader ? escapeHtml(d.leader) : '–'}</td>
+                </tr>`;
+    return `
+<h2>Visibility by Prompt Category</h2>
+<div class="card">
+    <p class="table-note">How ${escapeHtml(config.clientName)} performs in each group of prompts, over all models. Mentions are LLM-reported mentions per sample.</p>
+    <table>
+        <thead>
+            <tr>
+                <th>Category</th>
+                <th style="text-align: right;">Prompts</th>
+                <th style="text-align: right;">Mentions</th>
+                <th style="text-align: right;">Share of Voice</th>
+                <th style="text-align: right;">Prompt Coverage</th>
+                <th style="text-align: right;">Avg. Sentiment</th>
+                <th style="text-align: right;">Leader</th>
+            </tr>
+        </thead>
+        <tbody>
+            ${aggregateCategoryBreakdown(results, config).map(row).join('')}
+        </tbody>
+    </table>
+</div>`;
+}
+
+// Runs with prompts in more than one locale get the comparison and the locale filter.
+const isLocalized = (config: AppConfig) => getPromptLocales(config).length > 1;
+const formatLocale = (locale: string) => locale === NO_LOCALE ? locale : describeLocale(locale);
+
+function generateLocaleComparison(results: AnalysisResult[], config: AppConfig): string {
+    if (!isLocalized(config)) return '';
+    const locales = getPromptLocales(config);
+    return `
+<h2>Visibility by Locale</h2>
+<div class="card">
+    <p class="table-note">Share of voice of each tracked brand in every market of the run, over all models, with the average sentiment score below it.</p>
+    <table>
+        <thead>
+            <tr>
+                <th>Brand</th>
+                ${locales.map(l => `<th style="text-align: right;">${escapeHtml(formatLocale(l))}</th>`).join('')}
+            </tr>
+        </thead>
+        <tbody>
+            ${aggregateLocaleComparison(results, config).map(brand => {
+                const isClient = brand.brandName.toLowerCase() === config.clientName.toLowerCase();
+                return `
+                <tr class="${isClient ? 'client-row' : ''}">
+                    <td class="${isClient ? 'client-name' : ''}">${escapeHtml(brand.brandName)}</td>
+                    ${locales.map(l => {
+                        const m = brand.byLocale[l];
+                        return `<td style="text-align: right;">${Math.round(m.shareOfVoice * 100)}%<br><span class="local-count">${m.averageSentiment === null ? '–' : formatSentimentScore(m.averageSentiment)}</span></td>`;
+                    }).join('')}
+                </tr>`;
+            }).join('')}
+        </tbody>
+    </table>
+</div>`;
+}
+
+function generateCitedSources(results: AnalysisResult[], config: AppConfig): string {
+    const citedDomains = aggregateCitedDomains(results, config);
+    if (citedDomains.length === 0) return '';
+
+    const targets = getAnalysisTargets(config);
+    const clientCitations = getClientCitationsByTarget(results, config);
+
+    return `
+<h2>Cited Sources</h2>
+<div class="card">
+    <p class="table-note">Domains cited by the API or linked in the response text, counted once per response.</p>
+    <ul>
+        ${targets.map(t => `<li><strong>${escapeHtml(getTargetDisplayName(t))}:</strong> ${escapeHtml(config.clientName)} cited in ${clientCitations[t.key].cited} of ${clientCitations[t.key].responses} responses</li>`).join('')}
+    </ul>
+    <table>
+        <thead>
+            <tr>
+                <th>Domain</th>
+                ${targets.map(t => `<th style="text-align: right;">${escapeHtml(getTargetDisplayName(t))}</th>`).join('')}
+                <th style="text-align: right;">Total</th>
+            </tr>
+        </thead>
+        <tbody>
+            ${citedDomains.map(d => `
+                <tr class="${d.isClientDomain ? 'client-row' : ''}">
+                    <td class="${d.isClientDomain ? 'client-name' : ''}">${escapeHtml(d.domain)}</td>
+                    ${targets.map(t => `<td style="text-align: right;">${d.citations[t.key] || 0}</td>`).join('')}
+                    <td style="text-align: right;"><strong>${d.total}</strong></td>
+                </tr>
+            `).join('')}
+        </tbody>
+    </table>
+</div>`;
+}
+
+const getEvidenceId = (brandIndex: number, targetIndex: number) => `sentiment-evidence-${brandIndex}-${targetIndex}`;
+
+// The scored analyses behind each average in the sentiment table, one collapsible block per
+// brand and provider+model, in table order so the table's links resolve.
+function generateSentimentEvidence(sentimentData: (BrandSentimentData | undefined)[], config: AppConfig): string {
+    const targets = getAnalysisTargets(config);
+    const samples = getSamplesPerPrompt(config);
+    const blocks = sentimentData.flatMap((data, brandIndex) => data ? targets.flatMap((t, targetIndex) => {
+        const evidence = data.evidence[t.key];
+        if (!evidence?.length) return [];
+        return [`
+    <details id="${getEvidenceId(brandIndex, targetIndex)}" class="evidence">
+        <summary>${escapeHtml(data.brandName)} in ${escapeHtml(getTargetDisplayName(t))}: ${formatSentimentScore(data.averageScores[t.key])}</summary>
+        <ul>
+            ${evidence.map(e => `
+            <li>
+                <strong>${formatSentimentScore(e.score)}</strong> "${escapeHtml(e.prompt)}"${samples > 1 ? ` (sample ${e.sample + 1})` : ''}
+                ${e.rationale ? `<p>${escapeHtml(e.rationale)}</p>` : ''}
+                ${e.quotes.map(quote => `<blockquote>${escapeHtml(quote)}</blockquote>`).join('')}
+            </li>`).join('')}
+        </ul>
+    </details>`];
+    }) : []);
+    if (blocks.length === 0) return '';
+
+    return `
+<h2>Sentiment Evidence</h2>
+<div class="card">
+    ${blocks.join('')}
+</div>`;
+}
+
+function generateUsageAndCost(results: AnalysisResult[], config: AppConfig): string {
+    if (!results.some(r => r.providerResponses.some(pr => pr.usage)) && !config.setupUsage?.length) return '';
+
+    const { byTarget, setup, totalCost, hasUnpriced } = aggregateCosts(results, config);
+    const formatTokens = (usage: TokenUsage) => `${usage.inputTokens.toLocaleString()} / ${usage.outputTokens.toLocaleString()}`;
+
+    return `
+<h2>Token Usage &amp; Cost</h2>
+<div class="card">
+    <p class="table-note">Input / output tokens as reported by each API, priced with the model prices set for this run.</p>
+    <table>
+        <thead>
+            <tr>
+                <th>Model</th>
+                <th style="text-align: right;">Answers</th>
+                <th style="text-align: right;">Brand Analysis</th>
+                <th style="text-align: right;">Questions</th>
+                <th style="text-align: right;">Cost</th>
+            </tr>
+        </thead>
+        <tbody>
+            ${getAnalysisTargets(config).map(t => {
+                const entry = byTarget[t.key];
+                return `
+                <tr>
+                    <td>${escapeHtml(getTargetDisplayName(t))}</td>
+                    <td style="text-align: right;">${formatTokens(entry.usage.answer)}</td>
+                    <td style="text-align: right;">${formatTokens(entry.usage.analysis)}</td>
+                    <td style="text-align: right;">${formatTokens(entry.usage.questions)}</td>
+                    <td style="text-align: right;">${entry.cost === null ? 'No price' : formatCost(entry.cost)}</td>
+                </tr>
+                `;
+            }).join('')}
+            ${setup.map(entry => `
+                <tr>
+                    <td>${SETUP_CALL_LABELS[entry.callType]}: ${escapeHtml(getTargetDisplayName(entry.target))}</td>
+                    <td colspan="3" style="text-align: right;">${formatTokens(entry.usage)}</td>
+                    <td style="text-align: right;">${entry.cost === null ? 'No price' : formatCost(entry.cost)}</td>
+                </tr>
+                `).join('')}
+            <tr class="client-row">
+                <td colspan="4"><strong>Total</strong></td>
+                <td style="text-align: right;"><strong>${formatCost(totalCost)}${hasUnpriced ? '+' : ''}</strong></td>
+            </tr>
+        </tbody>
+    </table>
+</div>`;
 }
 
 function generateIndividualResponses(results: AnalysisResult[], config: AppConfig): string {
+    const categorized = isCategorized(config);
+    const localized = isLocalized(config);
     return `
 <h2>Individual Prompt Responses</h2>
-<div class="card">
-    <input type="search" id="responseSearch" placeholder="Search prompts and responses..." style="width: 100%; padding: 0.75rem; border-radius: 0.5rem; border: 1px solid #4a5568; background-color: #374151; color: #e5e7eb; font-size: 1rem;">
+<div class="card" style="display: flex; gap: 0.75rem;">
+    <input type="search" id="responseSearch" placeholder="Search prompts and responses..." style="flex-grow: 1; padding: 0.75rem; border-radius: 0.5rem; border: 1px solid #4a5568; background-color: #374151; color: #e5e7eb; font-size: 1rem;">
+    ${categorized ? `
+    <select id="categoryFilter" aria-label="Prompt category" style="padding: 0.75rem; border-radius: 0.5rem; border: 1px solid #4a5568; background-color: #374151; color: #e5e7eb; font-size: 1rem;">
+        <option value="">All categories</option>
+        ${getPromptCategories(config).map(c => `<option value="${escapeHtml(c)}">${escapeHtml(c)}</option>`).join('')}
+    </select>` : ''}
+    ${localized ? `
+    <select id="localeFilter" aria-label="Locale" style="padding: 0.75rem; border-radius: 0.5rem; border: 1px solid #4a5568; background-color: #374151; color: #e5e7eb; font-size: 1rem;">
+        <option value="">All locales</option>
+        ${getPromptLocales(config).map(l => `<option value="${escapeHtml(l)}">${escapeHtml(formatLocale(l))}</option>`).join('')}
+    </select>` : ''}
 </div>
-${results.map((result, index) => `
-<div class="card accordion-wrapper prompt-card-wrapper">
+${results.map((result, index) => {
+    const pIndex = getResultPromptIndex(result, config);
+    return `
+<div class="card accordion-wrapper prompt-card-wrapper" data-category="${escapeHtml(getPromptCategory(pIndex, config))}" data-locale="${escapeHtml(getPromptLocale(pIndex, config))}">
     <div class="accordion-header">
         <h4 class="prompt-header-text" style="margin: 0; flex-grow: 1; color: #e5e7eb; font-size: 1.1rem;">Prompt ${index + 1}: <span style="font-weight: normal; font-style: italic; color: #d1d5db;">${escapeHtml(result.prompt)}</span></h4>
+        ${categorized ? `<span class="category-label">${escapeHtml(getPromptCategory(pIndex, config))}</span>` : ''}
+        ${localized ? `<span class="category-label">${escapeHtml(getPromptLocale(pIndex, config))}</span>` : ''}
         <span class="indicator">[+]</span>
     </div>
     <div class="accordion-content">
         <div class="response-container">
             ${result.providerResponses.map(pResponse => `
             <div class="provider-response">
-                <h4>${escapeHtml(getProviderNameWithModel(pResponse.provider, config))}</h4>
+                <h4>${escapeHtml(getResponseHeading(pResponse, config))}</h4>
                 ${pResponse.error ? `<p class="error">Error: ${escapeHtml(pResponse.error)}</p>` : `
                 <h5>LLM Response</h5>
                 <div class="response-content"><pre style="white-space: pre-wrap; word-wrap: break-word;">${escapeHtml(pResponse.response)}</pre></div>
+                ${pResponse.citations?.length ? `
+                <h5>Sources</h5>
+                <ul class="sources">
+                    ${pResponse.citations.map(c => `<li><a href="${escapeHtml(c.url)}" target="_blank" rel="noopener noreferrer" class="${isClientDomain(c.domain, config) ? 'client-name' : ''}">${escapeHtml(c.url)}</a>${c.source === 'text' ? ' <span class="local-count">(linked in text)</span>' : ''}</li>`).join('')}
+                </ul>` : ''}
                 <h5>Brand Analysis</h5>
+                ${pResponse.analysisWarning ? `<p class="warning">Incomplete analysis: ${escapeHtml(pResponse.analysisWarning)}</p>` : ''}
                 <table>
-                    <thead><tr><th>Brand</th><th>Mentions</th><th>Sentiment</th></tr></thead>
+                    <thead><tr><th>Brand</th><th>Mentions</th><th>Text Matches</th><th>First Mention</th><th>List Rank</th><th>Recommended</th><th>Sentiment</th></tr></thead>
                     <tbody>
-                    ${pResponse.brandAnalyses.map(ba => `
+                    ${pResponse.brandAnalyses.map(ba => {
+                        const counted = countLocalMentions(pResponse, ba.brandName, config);
+                        return `
                         <tr>
                             <td>${escapeHtml(ba.brandName)}</td>
                             <td>${ba.mentions}</td>
-                            <td class="sentiment-${ba.sentiment.replace(' ', '-')}">${ba.sentiment}</td>
+                            <td class="${counted !== ba.mentions ? 'count-mismatch' : ''}">${counted}</td>
+                            <td>${ba.firstMentionRank ?? '–'}</td>
+                            <td>${ba.listRank ?? '–'}</td>
+                            <td>${ba.recommended ? 'Yes' : 'No'}</td>
+                            <td class="sentiment-${ba.sentiment.replace(' ', '-')}">${ba.sentiment}${typeof ba.sentimentScore === 'number' ? ` (${formatSentimentScore(ba.sentimentScore)})` : ''}${ba.sentimentRationale ? `<br><span class="local-count">${escapeHtml(ba.sentimentRationale)}</span>` : ''}</td>
                         </tr>
-                    `).join('')}
+                    `;
+                    }).join('')}
                     </tbody>
                 </table>
                 `}
@@ -300,7 +618,8 @@ ${results.map((result, index) => `
         </div>
     </div>
 </div>
-`).join('')}
+`;
+}).join('')}
 `;
 }
 
@@ -324,8 +643,8 @@ ${config.additionalQuestions.map((question, qIndex) => `
                 const answer = pResponse.additionalAnswers.find(a => a.question === question);
                 return `
                 <div class="provider-response">
-                    <h4>${escapeHtml(getProviderNameWithModel(pResponse.provider, config))}</h4>
-                    <div class="response-content"><pre style="white-space: pre-wrap; word-wrap: break-word;">${answer ? escapeHtml(answer.answer) : 'No answer available.'}</pre></div>
+                    <h4>${escapeHtml(getResponseHeading(pResponse, config))}</h4>
+                    <div class="response-content"><pre style="white-space: pre-wrap; word-wrap: break-word;">${answer?.error ? `<span class="error">Could not answer: ${escapeHtml(answer.error)}</span>` : answer ? escapeHtml(answer.answer) : 'No answer available.'}</pre></div>
                 </div>
                 `;
             }).join('')}
@@ -361,6 +680,39 @@ document.addEventListener('DOMContentLoaded', function() {
         });
     });
 
+    // Sortable tables: the first click uses the column's default direction, later clicks toggle it.
+    document.querySelectorAll('.sortable-table').forEach(table => {
+        const tbody = table.querySelector('tbody');
+        table.querySelectorAll('th.sortable').forEach(th => {
+            th.addEventListener('click', function() {
+                const index = Number(this.dataset.sortIndex);
+                const direction = this.dataset.sortDirection ? (this.dataset.sortDirection === 'asc' ? 'desc' : 'asc') : this.dataset.sortDefault;
+                table.querySelectorAll('th.sortable').forEach(other => { delete other.dataset.sortDirection; });
+                this.dataset.sortDirection = direction;
+                const rows = Array.from(tbody.querySelectorAll('tr'));
+                rows.sort((a, b) => {
+                    const va = a.children[index].dataset.value;
+                    const vb = b.children[index].dataset.value;
+                    if (va === '' || vb === '') return va === vb ? 0 : va === '' ? 1 : -1;
+                    return direction === 'asc' ? Number(va) - Number(vb) : Number(vb) - Number(va);
+                });
+                rows.forEach(row => tbody.appendChild(row));
+            });
+        });
+    });
+
+    // Category and locale filters: each hides the prompts it excludes, independently of the search.
+    [['categoryFilter', 'category'], ['localeFilter', 'locale']].forEach(([id, key]) => {
+        const filter = document.getElementById(id);
+        if (!filter) return;
+        filter.addEventListener('change', function() {
+            const value = this.value;
+            document.querySelectorAll('.prompt-card-wrapper').forEach(card => {
+                card.classList.toggle(key + '-hidden', value !== '' && card.dataset[key] !== value);
+            });
+        });
+    });
+
     // Search functionality
     const searchInput = document.getElementById('responseSearch');
     if (searchInput) {
@@ -392,7 +744,7 @@ document.addEventListener('DOMContentLoaded', function() {
 
                     if (searchTerm && originalContent.toLowerCase().includes(searchTerm)) {
                         hasMatch = true;
-                        const regex = new RegExp(searchTerm.replace(/[-\\/\\\\^$*+?.()|[\]{}]/g, '\\\\$&'), 'gi');
+                        const regex = new RegExp(searchTerm.replace(/[-\\/\\\\^$*+?.()|[\\]{}]/g, '\\\\$&'), 'gi');
                         el.innerHTML = originalContent.replace(regex, match => \`<mark>\${match}</mark>\`);
                     }
                 });
@@ -441,7 +793,11 @@ document.addEventListener('DOMContentLoaded', function() {
         <p>Client: <strong>${escapeHtml(config.clientName)}</strong> | Date: ${new Date().toLocaleDateString()}</p>
         
         ${generateSummary(results, config)}
+        ${generateCategoryBreakdown(results, config)}
+        ${generateLocaleComparison(results, config)}
         ${generateComparativeTables(results, config)}
+        ${generateCitedSources(results, config)}
+        ${generateUsageAndCost(results, config)}
         ${generateIndividualResponses(results, config)}
         ${generateAdditionalQuestions(results, config)}
         
@@ -0,0 +1,38 @@
+// Locales are BCP 47 tags such as "de-DE" or "fr". Tags the browser can't name are shown as written.
+
+function displayName(code: string): string | undefined {
+    try {
+        return new Intl.DisplayNames(['en'], { type: 'language' }).of(code);
+    } catch {
+        return undefined;
+    }
+}
+
+// "de-DE" → "German (Germany)".
+export function describeLocale(locale: string): string {
+    return displayName(locale) ?? locale;
+}
+
+// "de-DE" → "German", the language prompts for that locale are written in.
+export function getLocaleLanguage(locale: string): string {
+    try {
+        return displayName(new Intl.Locale(locale).language) ?? locale;
+    } catch {
+        return locale;
+    }
+}
+
+// "de-DE" → "Germany", the market prompts for that locale are asked from. Null for tags without
+// a region, such as "fr".
+export function getLocaleRegion(locale: string): string | null {
+    try {
+        const { region } = new Intl.Locale(locale);
+        return region ? new Intl.DisplayNames(['en'], { type: 'region' }).of(region) ?? region : null;
+    } catch {
+        return null;
+    }
+}
+
+// Comma- or whitespace-separated tags, without repeats.
+export const splitLocales = (value: string): string[] =>
+    Array.from(new Set(value.split(/[\s,]+/).map(l => l.trim()).filter(Boolean)));
\ No newline at end of file
@@ -0,0 +1,32 @@
+// Deterministic brand-mention counting over raw LLM responses, used to cross-check
+// the counts the LLM brand analysis reports.
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A term matches case-insensitively, with any run of whitespace between words and
+// either straight or curly apostrophes (so "McDonald's" matches "McDonald’s").
+function toTermPattern(term: string): string {
+    return term
+        .trim()
+        .split(/\s+/)
+        .map(word => escapeRegExp(word).replace(/['’]/g, "['’]"))
+        .join('\\s+');
+}
+
+// Builds one matcher for all terms of a brand. Longer terms come first so that
+// "HubSpot CRM" is counted once rather than also as "HubSpot". A match must not be
+// preceded or followed by a letter or digit, which keeps "Canto" from matching
+// "Cantonese" while still matching possessives like "Canto's" and markdown like "**Canto**".
+export function createMentionMatcher(terms: string[]): RegExp | null {
+    const patterns = Array.from(new Set(terms.map(t => t.trim()).filter(Boolean)))
+        .sort((a, b) => b.length - a.length)
+        .map(toTermPattern);
+    if (patterns.length === 0) return null;
+    return new RegExp(`(?<![\\p{L}\\p{N}])(?:${patterns.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+export function countMentions(text: string, terms: string[]): number {
+    const matcher = createMentionMatcher(terms);
+    if (!matcher || !text) return 0;
+    return text.match(matcher)?.length ?? 0;
+}
\ No newline at end of file
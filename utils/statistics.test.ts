@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { mean, standardDeviation, wilsonInterval } from './statistics';
+
+describe('mean and standardDeviation', () => {
+    it('summarize the values', () => {
+        expect(mean([1, 2, 3, 6])).toBe(3);
+        expect(standardDeviation([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(2.138, 3);
+    });
+
+    it('are 0 without enough values', () => {
+        expect(mean([])).toBe(0);
+        expect(standardDeviation([5])).toBe(0);
+    });
+});
+
+describe('wilsonInterval', () => {
+    it('matches the published 95% interval', () => {
+        // 8 of 10: 0.4902 to 0.9433.
+        const { low, high } = wilsonInterval(8, 10);
+        expect(low).toBeCloseTo(0.4902, 4);
+        expect(high).toBeCloseTo(0.9433, 4);
+    });
+
+    it('stays within 0 and 1 at the extremes', () => {
+        const none = wilsonInterval(0, 5);
+        expect(none.low).toBe(0);
+        expect(none.high).toBeCloseTo(0.4345, 4);
+        const all = wilsonInterval(5, 5);
+        expect(all.low).toBeCloseTo(0.5655, 4);
+        expect(all.high).toBe(1);
+    });
+
+    it('narrows as trials grow', () => {
+        const small = wilsonInterval(5, 10);
+        const large = wilsonInterval(500, 1000);
+        expect(large.high - large.low).toBeLessThan(small.high - small.low);
+    });
+
+    it('widens with a larger z', () => {
+        const at95 = wilsonInterval(3, 10);
+        const at99 = wilsonInterval(3, 10, 2.576);
+        expect(at99.low).toBeLessThan(at95.low);
+        expect(at99.high).toBeGreaterThan(at95.high);
+    });
+
+    it('is empty without trials', () => {
+        expect(wilsonInterval(0, 0)).toEqual({ low: 0, high: 0 });
+    });
+});
\ No newline at end of file
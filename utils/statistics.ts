@@ -0,0 +1,23 @@
+const Z_95 = 1.96;
+
+export function mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+// Sample standard deviation, 0 for fewer than two values.
+export function standardDeviation(values: number[]): number {
+    if (values.length < 2) return 0;
+    const m = mean(values);
+    return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+// Wilson score interval for a proportion. Unlike the normal approximation it stays within
+// 0-1 and is still meaningful for the small sample counts a run typically has.
+export function wilsonInterval(successes: number, trials: number, z = Z_95): { low: number, high: number } {
+    if (trials === 0) return { low: 0, high: 0 };
+    const p = successes / trials;
+    const denominator = 1 + z * z / trials;
+    const center = (p + z * z / (2 * trials)) / denominator;
+    const margin = (z / denominator) * Math.sqrt(p * (1 - p) / trials + z * z / (4 * trials * trials));
+    return { low: Math.max(0, center - margin), high: Math.min(1, center + margin) };
+}